@@ -0,0 +1,186 @@
+import fs from "fs"
+import os from "os"
+import path from "path"
+import { build, check, main, renderPages } from "./cli"
+
+/**
+ * Writes pages to a new directory. They import `elements` as `ELEMENTS`.
+ */
+function writePages(pages: Record<string, string>): string {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), "pages-"))
+  for (const [name, source] of Object.entries(pages)) {
+    fs.writeFileSync(path.join(directory, name), [
+      `import React from ${JSON.stringify(require.resolve("react"))}`,
+      source.replace("ELEMENTS", JSON.stringify(path.resolve("elements"))),
+    ].join("\n"))
+  }
+  return directory
+}
+
+/**
+ * Copies the heading example's output somewhere it can be changed.
+ */
+function copySite(): string {
+  const site = fs.mkdtempSync(path.join(os.tmpdir(), "_site-"))
+  for (const page of ["default", "levels"]) {
+    fs.mkdirSync(path.join(site, page))
+    fs.copyFileSync(
+      path.join("examples/heading/_site", page, "index.html"),
+      path.join(site, page, "index.html"),
+    )
+  }
+  return site
+}
+
+describe("renderPages()", () => {
+  it("renders each page to its own index.html", async () => {
+    const pages = await renderPages("examples/heading", { format: true })
+    expect(pages.map(page => page.output)).toEqual([
+      path.join("default", "index.html"),
+      path.join("levels", "index.html"),
+    ])
+    for (const page of pages) {
+      expect(page.diagnostics).toEqual([])
+      expect(page.html).toBe(fs.readFileSync(
+        path.join("examples/heading/_site", page.output),
+        "utf8",
+      ))
+    }
+  })
+})
+
+describe("build()", () => {
+  it("writes each page to its own index.html", async () => {
+    const site = fs.mkdtempSync(path.join(os.tmpdir(), "_site-"))
+    await build("examples/heading", site, { format: true })
+    for (const page of ["default", "levels"]) {
+      expect(fs.readFileSync(path.join(site, page, "index.html"), "utf8"))
+        .toBe(fs.readFileSync(
+          path.join("examples/heading/_site", page, "index.html"),
+          "utf8",
+        ))
+    }
+    fs.rmSync(site, { recursive: true })
+  })
+
+  it("skips files that don't render a <Document>", async () => {
+    const pages = writePages({
+      "Footer.tsx": `
+        import { Footer as Base, P } from ELEMENTS
+        export default function Footer() {
+          return <Base><P>footer</P></Base>
+        }
+      `,
+      "index.tsx": `
+        import { Document } from ELEMENTS
+        import Footer from "./Footer"
+        export default function Index() {
+          return (
+            <Document lang="en-US" title="test" description="testing">
+              <Footer />
+            </Document>
+          )
+        }
+      `,
+    })
+    const site = path.join(pages, "_site")
+    const built = await build(pages, site)
+    expect(built.map(page => page.source)).toEqual(["index.tsx"])
+    expect(fs.readFileSync(path.join(site, "index.html"), "utf8"))
+      .toContain("<footer><p>footer</p></footer>")
+    expect(fs.existsSync(path.join(site, "Footer"))).toBe(false)
+    fs.rmSync(pages, { recursive: true })
+  })
+})
+
+describe("check()", () => {
+  it("passes when the output matches", async () => {
+    const { mismatches } = await check(
+      "examples/heading",
+      "examples/heading/_site",
+      { format: true },
+    )
+    expect(mismatches).toEqual([])
+  })
+
+  it("ignores formatting differences", async () => {
+    const { mismatches } = await check(
+      "examples/heading",
+      "examples/heading/_site",
+    )
+    expect(mismatches).toEqual([])
+  })
+
+  it("reports a line diff when the output has drifted", async () => {
+    const site = copySite()
+    const file = path.join(site, "default", "index.html")
+    fs.writeFileSync(file, fs.readFileSync(file, "utf8").replace(
+      "<h1>level 1</h1>",
+      "<h1>level one</h1>",
+    ))
+    fs.mkdirSync(path.join(site, "removed"))
+    fs.writeFileSync(path.join(site, "removed", "index.html"), "<p>gone</p>")
+
+    const { mismatches } = await check("examples/heading", site, {
+      format: true,
+    })
+    expect(mismatches.map(mismatch => mismatch.output)).toEqual([
+      path.join("default", "index.html"),
+      path.join("removed", "index.html"),
+    ])
+    expect(mismatches[0].diff).toContain([
+      "-    <h1>level one</h1>",
+      "+    <h1>level 1</h1>",
+    ].join("\n"))
+    expect(mismatches[1].actual).toBeUndefined()
+    fs.rmSync(site, { recursive: true })
+  })
+
+  it("updates the output that has drifted", async () => {
+    const site = copySite()
+    fs.unlinkSync(path.join(site, "levels", "index.html"))
+
+    await check("examples/heading", site, { format: true, update: true })
+    expect(fs.readFileSync(path.join(site, "levels", "index.html"), "utf8"))
+      .toBe(fs.readFileSync("examples/heading/_site/levels/index.html", "utf8"))
+    const { mismatches } = await check("examples/heading", site, {
+      format: true,
+    })
+    expect(mismatches).toEqual([])
+    fs.rmSync(site, { recursive: true })
+  })
+})
+
+describe("main()", () => {
+  it("prints usage for unknown commands", async () => {
+    const error = jest.spyOn(console, "error").mockImplementation(() => {})
+    expect(await main(["bild", "src", "out"])).toBe(1)
+    expect(error).toHaveBeenCalledWith(expect.stringMatching(/^Usage:/))
+    error.mockRestore()
+  })
+
+  it("prints validation errors and exits 1", async () => {
+    const pages = writePages({
+      "index.tsx": `
+        import { Document, Heading } from ELEMENTS
+        export default function Index() {
+          return (
+            <Document lang="en-US" title="test" description="testing">
+              <Heading>one</Heading>
+              <Heading level={3}>three</Heading>
+            </Document>
+          )
+        }
+      `,
+    })
+    const site = path.join(pages, "_site")
+    const error = jest.spyOn(console, "error").mockImplementation(() => {})
+    expect(await main(["build", pages, site])).toBe(1)
+    expect(error).toHaveBeenCalledWith(
+      "index.tsx: html > body > h3: Heading level 3 not allowed: previous level is 1",
+    )
+    expect(fs.existsSync(site)).toBe(false)
+    error.mockRestore()
+    fs.rmSync(pages, { recursive: true })
+  })
+})
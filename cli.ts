@@ -0,0 +1,348 @@
+#!/usr/bin/env node
+import fs from "fs"
+import path from "path"
+import React from "react"
+import rehype from "rehype"
+import rehypeFormat from "rehype-format"
+import ts from "typescript"
+import {
+  Diagnostic,
+  MissingDocumentError,
+  renderDocumentAsync,
+} from "./elements"
+
+/**
+ * One page of a site: a `.tsx` file whose default export renders a
+ * `<Document>`.
+ */
+export type Page = {
+  /** The page's source file, relative to the source directory. */
+  source: string
+  /** The HTML file it renders to, relative to the output directory. */
+  output: string
+  html: string
+  diagnostics: Diagnostic[]
+}
+
+export type BuildOptions = {
+  /** Indents the rendered HTML with `rehype-format`. */
+  format?: boolean
+}
+
+export type CheckOptions = BuildOptions & {
+  /** Rewrites the files that don't match instead of only reporting them. */
+  update?: boolean
+}
+
+/**
+ * An HTML file that doesn't match what its page renders to. `expected` is
+ * missing for pages that haven't been rendered before, and `actual` for
+ * files whose page no longer exists.
+ */
+export type Mismatch = {
+  output: string
+  expected?: string
+  actual?: string
+  diff: string
+}
+
+const usage = [
+  "Usage: react-elements build <srcDir> <outDir> [--format]",
+  "       react-elements check <srcDir> <outDir> [--format] [--update]",
+].join("\n")
+
+/**
+ * Lets `require()` load `.ts` and `.tsx` files, so that pages can be
+ * rendered without compiling them first.
+ */
+function registerTypeScript(): void {
+  for (const extension of [".ts", ".tsx"]) {
+    if (require.extensions[extension]) {
+      continue
+    }
+    require.extensions[extension] = (
+      module: NodeModule & { _compile(code: string, filename: string): void },
+      filename: string,
+    ) => {
+      const { outputText } = ts.transpileModule(
+        fs.readFileSync(filename, "utf8"),
+        {
+          compilerOptions: {
+            esModuleInterop: true,
+            jsx: ts.JsxEmit.React,
+            module: ts.ModuleKind.CommonJS,
+            target: ts.ScriptTarget.ES2019,
+          },
+          fileName: filename,
+        },
+      )
+      module._compile(outputText, filename)
+    }
+  }
+}
+
+function findFiles(
+  directory: string,
+  extension: string,
+  exclude: string[] = [],
+): string[] {
+  if (!fs.existsSync(directory)) {
+    return []
+  }
+  return fs.readdirSync(directory, { withFileTypes: true }).flatMap(entry => {
+    const file = path.join(directory, entry.name)
+    if (entry.name.startsWith(".") || exclude.includes(file)) {
+      return []
+    } else if (entry.isDirectory()) {
+      return findFiles(file, extension, exclude)
+    }
+    return entry.name.endsWith(extension) ? [file] : []
+  })
+}
+
+/**
+ * `default.tsx` renders to `default/index.html` and `index.tsx` to
+ * `index.html`, so every page gets a clean URL.
+ */
+function outputPath(source: string): string {
+  const { dir, name } = path.parse(source)
+  return name === "index"
+    ? path.join(dir, "index.html")
+    : path.join(dir, name, "index.html")
+}
+
+async function formatHtml(html: string): Promise<string> {
+  return String(await rehype().use(rehypeFormat).process(html))
+}
+
+async function renderPage(file: string, options: BuildOptions): Promise<{
+  html: string
+  diagnostics: Diagnostic[]
+}> {
+  const diagnostics: Diagnostic[] = []
+  const component = require(file).default
+  let html = "<!doctype html>" + await renderDocumentAsync(
+    React.createElement(component),
+    { diagnostics, requireDocument: true },
+  )
+  if (options.format) {
+    html = await formatHtml(html)
+  }
+  return { html, diagnostics }
+}
+
+/**
+ * Renders every page in `srcDir`. Files that don't render a `<Document>`,
+ * like the components that pages are made of, are skipped. Pages that fail
+ * to render at all throw, while their validation errors are collected in
+ * `diagnostics`.
+ */
+export async function renderPages(
+  srcDir: string,
+  options: BuildOptions = {},
+  exclude: string[] = [],
+): Promise<Page[]> {
+  registerTypeScript()
+  const pages: Page[] = []
+  const excluded = ["node_modules", ...exclude].map(directory => (
+    path.resolve(srcDir, directory)
+  ))
+  const files = findFiles(path.resolve(srcDir), ".tsx", excluded)
+  for (const file of files.sort()) {
+    if (typeof require(file).default !== "function") {
+      continue
+    }
+    const source = path.relative(srcDir, file)
+    const rendered = await renderPage(file, options).catch(error => {
+      if (error instanceof MissingDocumentError) {
+        return undefined
+      }
+      error.message = `${source}: ${error.message}`
+      throw error
+    })
+    if (!rendered) {
+      continue
+    }
+    pages.push({ source, output: outputPath(source), ...rendered })
+  }
+  return pages
+}
+
+/**
+ * Renders every page in `srcDir` and writes them to `outDir`. Nothing is
+ * written unless every page is free of validation errors.
+ */
+export async function build(
+  srcDir: string,
+  outDir: string,
+  options: BuildOptions = {},
+): Promise<Page[]> {
+  const pages = await renderPages(srcDir, options, [
+    path.relative(srcDir, outDir),
+  ])
+  if (pages.some(page => page.diagnostics.length > 0)) {
+    return pages
+  }
+
+  for (const page of pages) {
+    const file = path.join(outDir, page.output)
+    fs.mkdirSync(path.dirname(file), { recursive: true })
+    fs.writeFileSync(file, page.html)
+  }
+  return pages
+}
+
+/**
+ * Lines removed from `expected` are prefixed with `-` and lines added in
+ * `actual` with `+`, with a few lines of context around each change.
+ */
+function diffLines(expected: string, actual: string, context = 2): string {
+  const a = expected === "" ? [] : expected.split("\n")
+  const b = actual === "" ? [] : actual.split("\n")
+  const common = a.map(() => new Array<number>(b.length + 1).fill(0))
+  common.push(new Array<number>(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      common[i][j] = a[i] === b[j]
+        ? common[i + 1][j + 1] + 1
+        : Math.max(common[i + 1][j], common[i][j + 1])
+    }
+  }
+
+  const lines: string[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push(` ${a[i++]}`)
+      j++
+    } else if (
+      i < a.length
+      && (j === b.length || common[i + 1][j] >= common[i][j + 1])
+    ) {
+      lines.push(`-${a[i++]}`)
+    } else {
+      lines.push(`+${b[j++]}`)
+    }
+  }
+
+  const changed = lines.map(line => !line.startsWith(" "))
+  const shown = lines.map((_, k) => changed.slice(
+    Math.max(0, k - context),
+    k + context + 1,
+  ).includes(true))
+  return lines.flatMap((line, k) => {
+    if (!shown[k]) {
+      return []
+    }
+    return k > 0 && !shown[k - 1] ? ["@@", line] : [line]
+  }).join("\n")
+}
+
+/**
+ * Renders every page in `srcDir` and compares it with the HTML already in
+ * `outDir`. Both sides are formatted before they're compared, so only
+ * structural differences count. With `update`, the files that differ are
+ * rewritten and those without a page are removed, unless any page has
+ * validation errors.
+ */
+export async function check(
+  srcDir: string,
+  outDir: string,
+  options: CheckOptions = {},
+): Promise<{ pages: Page[], mismatches: Mismatch[] }> {
+  const pages = await renderPages(srcDir, options, [
+    path.relative(srcDir, outDir),
+  ])
+  const outputs = new Set([
+    ...pages.map(page => page.output),
+    ...findFiles(outDir, ".html").map(file => path.relative(outDir, file)),
+  ])
+
+  const mismatches: Mismatch[] = []
+  for (const output of [...outputs].sort()) {
+    const file = path.join(outDir, output)
+    const expected = fs.existsSync(file)
+      ? fs.readFileSync(file, "utf8")
+      : undefined
+    const actual = pages.find(page => page.output === output)?.html
+    const diff = diffLines(
+      expected === undefined ? "" : await formatHtml(expected),
+      actual === undefined ? "" : await formatHtml(actual),
+    )
+    if (diff !== "") {
+      mismatches.push({ output, expected, actual, diff })
+    }
+  }
+
+  if (!options.update || pages.some(page => page.diagnostics.length > 0)) {
+    return { pages, mismatches }
+  }
+
+  for (const { output, actual } of mismatches) {
+    const file = path.join(outDir, output)
+    if (actual === undefined) {
+      fs.unlinkSync(file)
+    } else {
+      fs.mkdirSync(path.dirname(file), { recursive: true })
+      fs.writeFileSync(file, actual)
+    }
+  }
+  return { pages, mismatches }
+}
+
+function reportDiagnostics(pages: Page[]): boolean {
+  for (const { source, diagnostics } of pages) {
+    for (const diagnostic of diagnostics) {
+      console.error(`${source}: ${diagnostic.message}`)
+    }
+  }
+  return pages.every(page => page.diagnostics.length === 0)
+}
+
+export async function main(args: string[]): Promise<number> {
+  const flags = ["--format", "--update"]
+  const format = args.includes("--format")
+  const update = args.includes("--update")
+  const [command, srcDir, outDir, ...rest] = args.filter(arg => (
+    !flags.includes(arg)
+  ))
+  if (
+    !["build", "check"].includes(command)
+    || (command === "build" && update)
+    || !srcDir
+    || !outDir
+    || rest.length > 0
+  ) {
+    console.error(usage)
+    return 1
+  }
+
+  if (command === "build") {
+    const pages = await build(srcDir, outDir, { format })
+    return reportDiagnostics(pages) ? 0 : 1
+  }
+
+  const { pages, mismatches } = await check(srcDir, outDir, { format, update })
+  if (!reportDiagnostics(pages)) {
+    return 1
+  }
+  for (const { output, diff } of mismatches) {
+    const file = path.join(outDir, output)
+    if (update) {
+      console.log(`updated ${file}`)
+    } else {
+      console.error(`${file}\n${diff}\n`)
+    }
+  }
+  return update || mismatches.length === 0 ? 0 : 1
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then(code => {
+    process.exitCode = code
+  }, error => {
+    console.error(error)
+    process.exitCode = 1
+  })
+}
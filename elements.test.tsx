@@ -1,4 +1,4 @@
-import { select } from "hast-util-select"
+import { select, selectAll } from "hast-util-select"
 import React from "react"
 import ReactDOMServer from "react-dom/server"
 import rehype from "rehype"
@@ -7,25 +7,98 @@ import rehypeFormat from "rehype-format"
 import unified from "unified"
 import { name } from "./package.json"
 import {
+  AlternateLink,
   Anchor,
+  Article,
+  Aside,
+  AriaAttributeError,
+  AriaContextError,
+  AriaOwnedError,
+  AriaRoleError,
   Body,
+  Br,
+  Button,
   CanonicalLink,
+  Caption,
+  DanglingReferenceError,
+  ContentCategoryError,
+  ContentModelError,
+  createElementRegistry,
+  defaultElementRegistry,
+  defineElement,
   DescriptionDetails,
   DescriptionList,
   DescriptionTerm,
   Div,
   Document,
+  DuplicateIdError,
+  DuplicateMainError,
+  ElementLevelError,
+  ElementRegistryProvider,
+  Em,
+  Figcaption,
+  FigcaptionPositionError,
+  Figure,
+  Footer,
+  Form,
   H1,
   Head,
+  Header,
   Heading,
+  HeadingLevelError,
+  Img,
+  Input,
+  InteractiveContentError,
+  InvalidLangError,
+  JsonLdScript,
+  Label,
+  LandmarkNameError,
+  LandmarkNestingError,
+  Li,
   Link,
   Main,
   Meta,
+  MetadataConflictError,
   MetaCharset,
   MetaDescription,
+  MetaOpenGraph,
+  MetaRobots,
+  MetaThemeColor,
   MetaViewport,
+  MissingAlternateError,
+  MissingAltError,
+  MissingDimensionsError,
+  MissingLabelError,
+  MissingLangError,
+  MissingMainError,
+  MissingTableNameError,
+  Nav,
+  Option,
+  outline,
+  P,
+  Picture,
+  renderDocument,
+  renderDocumentAsync,
+  Section,
+  Select,
+  Source,
   Span,
   StylesheetLink,
+  Table,
+  TableColumnsError,
+  TableHeaderError,
+  TableOfContents,
+  TBody,
+  Td,
+  Textarea,
+  Th,
+  THead,
+  Title,
+  Tr,
+  Track,
+  Ul,
+  ValidationError,
+  Video,
 } from "./elements"
 
 function render(component: any): string {
@@ -39,6 +112,23 @@ function render(component: any): string {
     .toString()
 }
 
+/**
+ * Returns a component that suspends until `ms` have passed.
+ */
+function delay(ms: number): React.FC<{ children?: React.ReactNode }> {
+  let ready = false
+  const promise = new Promise<void>(resolve => setTimeout(() => {
+    ready = true
+    resolve()
+  }, ms))
+  return ({ children }) => {
+    if (!ready) {
+      throw promise
+    }
+    return <>{children}</>
+  }
+}
+
 function parse(html: string): any {
   return unified()
     .use(rehypeDomParse, { fragment: false })
@@ -46,6 +136,79 @@ function parse(html: string): any {
 }
 
 describe(name, () => {
+  describe("<AlternateLink />", () => {
+    it("renders the document's alternate language versions", () => {
+      const html = render(
+        <Document
+          lang="en-US"
+          title="test"
+          description="testing"
+          alternates={{
+            "en-us": "https://example.org/en/",
+            "ar": "https://example.org/ar/",
+            "x-default": "https://example.org/",
+          }}
+        />
+      )
+      const tree = parse(html)
+      const tags = selectAll("head > link[rel=alternate]", tree)
+      expect(tags.map(tag => tag.properties.hrefLang)).toEqual([
+        "en-us",
+        "ar",
+        "x-default",
+      ])
+      expect(select("link[hreflang=ar]", tree).properties.href)
+        .toBe("https://example.org/ar/")
+    })
+
+    it("lets <Head> children override the document's alternates", () => {
+      const html = render(
+        <Document
+          lang="en-US"
+          title="test"
+          description="testing"
+          alternates={{ "en-US": "https://example.org/en/" }}
+        >
+          <Head>
+            <AlternateLink hreflang="en-US" href="https://example.com/" />
+          </Head>
+        </Document>
+      )
+      const tree = parse(html)
+      const tags = selectAll("link[rel=alternate]", tree)
+      expect(tags).toHaveLength(1)
+      expect(tags[0].properties.href).toBe("https://example.com/")
+    })
+
+    it("rejects malformed locales", () => {
+      expect(() => render(
+        <Document
+          lang="en-US"
+          title="test"
+          description="testing"
+          alternates={{
+            "en-US": "https://example.org/en/",
+            "en_GB": "https://example.org/en-gb/",
+          }}
+        />
+      )).toThrowError(InvalidLangError)
+    })
+
+    it("requires the document's own language", () => {
+      expect(() => render(
+        <Document
+          lang="en-US"
+          title="test"
+          description="testing"
+          alternates={{
+            "sv-SE": "https://example.org/sv/",
+            "x-default": "https://example.org/",
+          }}
+        />
+      )).toThrowError(MissingAlternateError)
+    })
+  })
+
   describe("<Anchor />", () => {
     it("renders a link", async () => {
       const html = render(
@@ -69,7 +232,90 @@ describe(name, () => {
             </Anchor>
           </Head>
         </Document>
-      )).toThrowError()
+      )).toThrowError(ContentCategoryError)
+    })
+
+    it("cannot contain interactive content", () => {
+      expect(() => render(
+        <Document lang="en-US" title="test" description="testing">
+          <Anchor href="/a">
+            <Em><Anchor href="/b">nested</Anchor></Em>
+          </Anchor>
+        </Document>
+      )).toThrowError(InteractiveContentError)
+    })
+
+    it("is only interactive when it has an href", () => {
+      expect(() => render(
+        <Document lang="en-US" title="test" description="testing">
+          <Button>
+            <Anchor id="placeholder">button</Anchor>
+          </Button>
+        </Document>
+      )).not.toThrowError()
+    })
+
+    it("cannot contain another <a> with or without an href", () => {
+      expect(() => render(
+        <Document lang="en-US" title="test" description="testing">
+          <Anchor><Anchor>x</Anchor></Anchor>
+        </Document>
+      )).toThrowError(InteractiveContentError)
+      expect(() => render(
+        <Document lang="en-US" title="test" description="testing">
+          <Anchor href="/"><Anchor>x</Anchor></Anchor>
+        </Document>
+      )).toThrowError(InteractiveContentError)
+    })
+
+    it("has the content model of its parent", () => {
+      expect(() => render(
+        <Document lang="en-US" title="test" description="testing">
+          <Anchor href="/">
+            <Article><Heading>card</Heading></Article>
+          </Anchor>
+        </Document>
+      )).not.toThrowError()
+      expect(() => render(
+        <Document lang="en-US" title="test" description="testing">
+          <P>
+            <Anchor href="/"><Div>block</Div></Anchor>
+          </P>
+        </Document>
+      )).toThrowError(ContentModelError)
+    })
+  })
+
+  describe("<Br />", () => {
+    it("renders a <br> tag", async () => {
+      const html = render(
+        <Document lang="en-US" title="test" description="testing">
+          <P>one<Br />two</P>
+        </Document>
+      )
+      const tree = parse(html)
+      expect(select("p > br", tree)).toBeTruthy()
+    })
+
+    it("cannot be given children", () => {
+      // @ts-expect-error
+      const br = <Br>text</Br>
+      expect(br).toBeTruthy()
+    })
+  })
+
+  describe("<Button />", () => {
+    it("cannot contain or be contained by a link", () => {
+      expect(() => render(
+        <Document lang="en-US" title="test" description="testing">
+          <Button><Span><Anchor href="/">link</Anchor></Span></Button>
+        </Document>
+      )).toThrowError(InteractiveContentError)
+      expect(() => render(
+        <Document lang="en-US" title="test" description="testing">
+          <Anchor href="/"><Button>button</Button></Anchor>
+        </Document>
+      )).toThrowError(InteractiveContentError)
     })
   })
 
@@ -88,6 +334,97 @@ describe(name, () => {
     })
   })
 
+  describe("createElementRegistry()", () => {
+    it("overrides definitions only inside its provider", () => {
+      const registry = defaultElementRegistry.extend({
+        dl: {
+          ...defaultElementRegistry.get("dl"),
+          contentModel: () => ["flow"],
+        },
+      })
+      const page = (
+        <Document lang="en-US" title="test" description="testing">
+          <DescriptionList>
+            <Span>term</Span>
+          </DescriptionList>
+        </Document>
+      )
+      expect(() => render(
+        <ElementRegistryProvider registry={registry}>
+          {page}
+        </ElementRegistryProvider>
+      )).not.toThrowError()
+      expect(() => render(page)).toThrowError(ContentModelError)
+    })
+
+    it("refuses to redefine an element in the same registry", () => {
+      const registry = createElementRegistry()
+      const definition = defaultElementRegistry.get("div")
+      registry.define("div", definition)
+      expect(() => registry.define("div", definition)).toThrowError()
+      expect(() => registry.extend().define("div", definition))
+        .not.toThrowError()
+    })
+  })
+
+  describe("defineElement()", () => {
+    const registry = defaultElementRegistry.extend()
+    const SiteNav = defineElement({
+      name: "site-nav",
+      level: "block",
+      contentCategories: () => ["flow"],
+      contentModel: () => ["li"],
+      registry,
+    })
+
+    it("renders a custom element", () => {
+      const html = render(
+        <ElementRegistryProvider registry={registry}>
+          <Document lang="en-US" title="test" description="testing">
+            <SiteNav>
+              <Li>home</Li>
+            </SiteNav>
+          </Document>
+        </ElementRegistryProvider>
+      )
+      const tree = parse(html)
+      expect(select("site-nav > li", tree)).toBeTruthy()
+    })
+
+    it("validates a custom element's children", () => {
+      expect(() => render(
+        <ElementRegistryProvider registry={registry}>
+          <Document lang="en-US" title="test" description="testing">
+            <SiteNav>
+              <P>home</P>
+            </SiteNav>
+          </Document>
+        </ElementRegistryProvider>
+      )).toThrowError(ContentModelError)
+    })
+
+    it("validates a custom element's level", () => {
+      expect(() => render(
+        <ElementRegistryProvider registry={registry}>
+          <Document lang="en-US" title="test" description="testing">
+            <Span>
+              <SiteNav />
+            </Span>
+          </Document>
+        </ElementRegistryProvider>
+      )).toThrowError(ElementLevelError)
+    })
+
+    it("rejects invalid custom element names", () => {
+      expect(() => defineElement({
+        name: "font-face",
+        contentCategories: () => ["flow"],
+        contentModel: () => ["flow"],
+        registry: createElementRegistry(),
+      })).toThrowError()
+    })
+  })
+
   describe("<DescriptionDetails />", () => {
     it("renders a <dd> tag", async () => {
       const html = render(
@@ -126,6 +463,39 @@ describe(name, () => {
       )
       expect(html).toMatchSnapshot()
     })
+
+    it("allows <div> groups of terms and details", async () => {
+      expect(() => render(
+        <Document lang="en-US" title="test" description="testing">
+          <DescriptionList>
+            <Div>
+              <DescriptionTerm>term</DescriptionTerm>
+              <DescriptionDetails>details</DescriptionDetails>
+            </Div>
+          </DescriptionList>
+        </Document>
+      )).not.toThrowError()
+    })
+
+    it("cannot render phrasing content as a child", async () => {
+      expect(() => render(
+        <Document lang="en-US" title="test" description="testing">
+          <DescriptionList>
+            <Span>term</Span>
+          </DescriptionList>
+        </Document>
+      )).toThrowError()
+    })
+
+    it("cannot render a <div> inside a <div> group", async () => {
+      expect(() => render(
+        <Document lang="en-US" title="test" description="testing">
+          <DescriptionList>
+            <Div><Div /></Div>
+          </DescriptionList>
+        </Document>
+      )).toThrowError(ContentModelError)
+    })
   })
 
   describe("<DescriptionTerm />", () => {
@@ -192,6 +562,142 @@ describe(name, () => {
         </Document>
       )).toMatchSnapshot()
     })
+
+    it("renders document-level metadata", () => {
+      expect(render(
+        <Document
+          lang="en-US"
+          title="test"
+          description="testing"
+          themeColor="#663399"
+          robots={["noindex", "nofollow"]}
+          icons={[
+            { href: "/favicon.svg", type: "image/svg+xml" },
+            { href: "/apple-touch-icon.png", rel: "apple-touch-icon" },
+          ]}
+          openGraph={{
+            type: "website",
+            url: "https://example.org/",
+            image: "https://example.org/card.png",
+          }}
+          twitter={{ card: "summary_large_image", site: "@example" }}
+          jsonLd={{
+            "@context": "https://schema.org",
+            "@type": "WebSite",
+            "name": "</script>",
+          }}
+        />
+      )).toMatchSnapshot()
+    })
+
+    it("collects every violation when given a diagnostics array", () => {
+      const diagnostics = []
+      const html = render(
+        <Document
+          lang="en-US"
+          title="test"
+          description="testing"
+          diagnostics={diagnostics}
+        >
+          <Heading level={1}>one</Heading>
+          <Heading level={3}>three</Heading>
+          <Span><Div>test</Div></Span>
+        </Document>
+      )
+      const tree = parse(html)
+      expect(select("h3", tree)).toBeTruthy()
+      expect(select("span > div", tree)).toBeTruthy()
+      expect(diagnostics).toMatchObject([
+        {
+          rule: "heading-level",
+          element: "h3",
+          ancestry: ["html", "body"],
+          message: "html > body > h3: Heading level 3 not allowed: previous level is 1",
+        },
+        {
+          rule: "element-level",
+          element: "div",
+          ancestry: ["html", "body", "span"],
+          message: "html > body > span > div: Block element not allowed as child of inline element",
+        },
+        {
+          rule: "content-model",
+          element: "div",
+          ancestry: ["html", "body", "span"],
+          message: "html > body > span > div: Cannot render <div> inside <span>",
+        },
+      ])
+    })
+
+    it("requires a lang attribute", () => {
+      expect(() => render(
+        <Document lang="" title="test" description="testing" />
+      )).toThrowError(MissingLangError)
+    })
+
+    it("rejects duplicate ids", () => {
+      expect(() => render(
+        <Document lang="en-US" title="test" description="testing">
+          <Heading id="intro">Introduction</Heading>
+          <Section id="intro" />
+        </Document>
+      )).toThrowError(DuplicateIdError)
+    })
+
+    it("reports references to missing ids after rendering", () => {
+      const diagnostics = []
+      render(
+        <Document
+          lang="en-US"
+          title="test"
+          description="testing"
+          diagnostics={diagnostics}
+        >
+          <Anchor href="#details">Skip to details</Anchor>
+          <Anchor href="#nowhere">Broken link</Anchor>
+          <P id="help">Help text</P>
+          <Input aria-describedby="help hint" aria-label="Name" />
+          <Section id="details" />
+        </Document>
+      )
+      expect(diagnostics).toHaveLength(2)
+      expect(diagnostics[0]).toBeInstanceOf(DanglingReferenceError)
+      expect(diagnostics.map(d => [d.attribute, d.actual])).toEqual([
+        ["href", "nowhere"],
+        ["aria-describedby", "hint"],
+      ])
+    })
+
+    it("allows links to the top of the page", () => {
+      expect(() => render(
+        <Document lang="en-US" title="test" description="testing">
+          <Anchor href="#top">Back to top</Anchor>
+          <Anchor href="#Top">Back to top</Anchor>
+        </Document>
+      )).not.toThrowError()
+    })
+  })
+
+  describe("<Figure />", () => {
+    it("requires its caption to come first or last", () => {
+      expect(() => render(
+        <Document lang="en-US" title="test" description="testing">
+          <Figure>
+            <Img src="a.png" alt="" width={10} height={10} />
+            <Figcaption>caption</Figcaption>
+          </Figure>
+        </Document>
+      )).not.toThrowError()
+      expect(() => render(
+        <Document lang="en-US" title="test" description="testing">
+          <Figure>
+            <Img src="a.png" alt="" width={10} height={10} />
+            <Figcaption>caption</Figcaption>
+            <P>credit</P>
+          </Figure>
+        </Document>
+      )).toThrowError(FigcaptionPositionError)
+    })
   })
 
   describe("<H1 />", () => {
@@ -204,6 +710,99 @@ describe(name, () => {
     })
   })
 
+  describe("<Head />", () => {
+    it("lets children override the default metadata", () => {
+      const html = render(
+        <Document lang="en-US" title="test" description="testing">
+          <Head>
+            <meta name="viewport" content="width=device-width" />
+          </Head>
+        </Document>
+      )
+      const tree = parse(html)
+      const tags = selectAll("meta[name='viewport']", tree)
+      expect(tags).toHaveLength(1)
+      expect(tags[0].properties.content).toBe("width=device-width")
+    })
+
+    it("lets children override document-level Open Graph metadata", () => {
+      const html = render(
+        <Document
+          lang="en-US"
+          title="test"
+          description="testing"
+          openGraph={{ type: "website" }}
+        >
+          <Head>
+            <Meta property="og:title" content="custom" />
+          </Head>
+        </Document>
+      )
+      const tree = parse(html)
+      const tags = selectAll("meta[property='og:title']", tree)
+      expect(tags).toHaveLength(1)
+      expect(tags[0].properties.content).toBe("custom")
+    })
+
+    it("renders repeated identical metadata once", () => {
+      const html = render(
+        <Document lang="en-US" title="test" description="testing">
+          <Head>
+            <CanonicalLink href="https://example.org/" />
+            <Link rel="canonical" href="https://example.org/" />
+          </Head>
+        </Document>
+      )
+      const tree = parse(html)
+      expect(selectAll("link[rel=canonical]", tree)).toHaveLength(1)
+    })
+
+    it("rejects conflicting metadata", () => {
+      expect(() => render(
+        <Document lang="en-US" title="test" description="testing">
+          <Head>
+            <CanonicalLink href="https://example.org/a" />
+            <CanonicalLink href="https://example.org/b" />
+          </Head>
+        </Document>
+      )).toThrowError(MetadataConflictError)
+    })
+
+    it("allows Open Graph properties that can repeat", () => {
+      const html = render(
+        <Document lang="en-US" title="test" description="testing">
+          <Head>
+            <Meta property="og:image" content="https://example.org/a.png" />
+            <Meta property="og:image" content="https://example.org/b.png" />
+          </Head>
+        </Document>
+      )
+      const tree = parse(html)
+      expect(selectAll("meta[property='og:image']", tree)).toHaveLength(2)
+      expect(() => render(
+        <Document lang="en-US" title="test" description="testing">
+          <Head>
+            <Meta property="og:title" content="a" />
+            <Meta property="og:title" content="b" />
+          </Head>
+        </Document>
+      )).toThrowError(MetadataConflictError)
+    })
+
+    it("rejects metadata from the body that conflicts with its own", () => {
+      expect(() => renderDocument(
+        <Document lang="en-US" title="test" description="testing">
+          <Head>
+            <CanonicalLink href="https://example.org/a" />
+          </Head>
+          <Body>
+            <CanonicalLink href="https://example.org/b" />
+          </Body>
+        </Document>
+      )).toThrowError(MetadataConflictError)
+    })
+  })
+
   describe("<Heading />", () => {
     it("renders a <h1> by default", () => {
       expect(render(
@@ -239,21 +838,168 @@ describe(name, () => {
         </Document>
       )).toThrowErrorMatchingSnapshot()
     })
-  })
 
-  describe("<LanguageProvider />", () => {
-    it("includes lang attribute if different from document", () => {
+    it("resolves unlevelled headings to the section depth", () => {
       const html = render(
         <Document lang="en-US" title="test" description="testing">
-          <Heading lang="sv-SE">titel</Heading>
+          <Heading>one</Heading>
+          <Section>
+            <Heading>two</Heading>
+            <Article>
+              <Heading>three</Heading>
+            </Article>
+          </Section>
+          <Heading>one again</Heading>
         </Document>
       )
       const tree = parse(html)
-      expect(select("html[lang='en-US']", tree)).toBeTruthy()
-      expect(select("h1[lang='sv-SE']", tree)).toBeTruthy()
+      expect(select("body > h1", tree).children[0].value).toBe("one")
+      expect(select("section > h2", tree).children[0].value).toBe("two")
+      expect(select("article > h3", tree).children[0].value).toBe("three")
+      expect(select("h1:last-child", tree).children[0].value).toBe("one again")
     })
 
-    it("excludes lang attribute if same as document", () => {
+    it("continues at the level of the previous heading", () => {
+      const html = render(
+        <Document lang="en-US" title="test" description="testing">
+          <Heading>title</Heading>
+          <Heading level={2}>two</Heading>
+          <Heading>another two</Heading>
+        </Document>
+      )
+      const tree = parse(html)
+      expect(selectAll("body > h2", tree).map(h2 => h2.children[0].value))
+        .toEqual(["two", "another two"])
+    })
+
+    it("does not leak heading levels across sibling sections", () => {
+      const html = render(
+        <Document lang="en-US" title="test" description="testing">
+          <Heading>title</Heading>
+          <Section>
+            <Heading level={2}>two</Heading>
+            <Heading level={3}>three</Heading>
+            <Heading level={4}>four</Heading>
+          </Section>
+          <Section>
+            <Heading>sibling</Heading>
+          </Section>
+        </Document>
+      )
+      const tree = parse(html)
+      expect(select("section:last-child > h2", tree)).toBeTruthy()
+    })
+
+    it("rejects skipped levels at the start of a section", () => {
+      expect(() => render(
+        <Document lang="en-US" title="test" description="testing">
+          <Heading>title</Heading>
+          <Section>
+            <Heading level={4}>four</Heading>
+          </Section>
+        </Document>
+      )).toThrowError(HeadingLevelError)
+    })
+
+    it("throws a HeadingLevelError", () => {
+      expect(() => render(
+        <Document lang="en-US" title="test" description="testing">
+          <Heading level={1}>one</Heading>
+          <Heading level={3}>three</Heading>
+        </Document>
+      )).toThrowError(HeadingLevelError)
+    })
+  })
+
+  describe("<Img />", () => {
+    it("allows an empty alt for decorative images", () => {
+      const html = render(
+        <Document lang="en-US" title="test" description="testing">
+          <Img src="border.png" alt="" width={100} height={4} />
+        </Document>
+      )
+      const tree = parse(html)
+      expect(select("img[alt='']", tree)).toBeTruthy()
+    })
+
+    it("requires alt text", () => {
+      expect(() => render(
+        <Document lang="en-US" title="test" description="testing">
+          {/* @ts-expect-error */}
+          <Img src="photo.jpg" width={640} height={480} />
+        </Document>
+      )).toThrowError(MissingAltError)
+    })
+
+    it("requires a width and height", () => {
+      let error: MissingDimensionsError
+      try {
+        render(
+          <Document lang="en-US" title="test" description="testing">
+            <Picture>
+              <Source srcSet="photo.webp" type="image/webp" />
+              <Img src="photo.jpg" alt="A photo" width={640} />
+            </Picture>
+          </Document>
+        )
+      } catch (e) {
+        error = e
+      }
+      expect(error).toBeInstanceOf(MissingDimensionsError)
+      expect(error.actual).toEqual(["width"])
+      expect(error.message)
+        .toBe("html > body > picture > img: <img> requires a height attribute")
+    })
+  })
+
+  describe("<Input />", () => {
+    it("can be labelled by wrapping, htmlFor or aria-label", () => {
+      expect(() => render(
+        <Document lang="en-US" title="test" description="testing">
+          <Form>
+            <Label>Name <Input name="name" /></Label>
+            <Label htmlFor="email">Email</Label>
+            <Input id="email" type="email" />
+            <Textarea id="message" />
+            <Label htmlFor="message">Message</Label>
+            <Input aria-label="Search" type="search" />
+            <Input type="hidden" name="token" />
+            <Input type="submit" value="Send" />
+          </Form>
+        </Document>
+      )).not.toThrowError()
+    })
+
+    it("requires a label", () => {
+      expect(() => render(
+        <Document lang="en-US" title="test" description="testing">
+          <Input name="name" />
+        </Document>
+      )).toThrowError(MissingLabelError)
+      expect(() => render(
+        <Document lang="en-US" title="test" description="testing">
+          <Select id="colour">
+            <Option>red</Option>
+          </Select>
+          <Label htmlFor="color">Colour</Label>
+        </Document>
+      )).toThrowError(MissingLabelError)
+    })
+  })
+
+  describe("<LanguageProvider />", () => {
+    it("includes lang attribute if different from document", () => {
+      const html = render(
+        <Document lang="en-US" title="test" description="testing">
+          <Heading lang="sv-SE">titel</Heading>
+        </Document>
+      )
+      const tree = parse(html)
+      expect(select("html[lang='en-US']", tree)).toBeTruthy()
+      expect(select("h1[lang='sv-SE']", tree)).toBeTruthy()
+    })
+
+    it("excludes lang attribute if same as document", () => {
       const html = render(
         <Document lang="en-US" title="test" description="testing">
           <Heading lang="en-US">title</Heading>
@@ -279,6 +1025,160 @@ describe(name, () => {
       expect(select("h1[lang='sv-SE']", tree)).toBeTruthy()
       expect(select("span[lang='en-US']", tree)).toBeTruthy()
     })
+
+    it("compares language tags case-insensitively", () => {
+      const html = render(
+        <Document lang="en-US" title="test" description="testing">
+          <P lang="en-us">text</P>
+        </Document>
+      )
+      const tree = parse(html)
+      expect(select("p:not([lang])", tree)).toBeTruthy()
+    })
+
+    it("rejects malformed language tags", () => {
+      expect(() => render(
+        <Document lang="en-US" title="test" description="testing">
+          <P lang="en_GB">text</P>
+        </Document>
+      )).toThrowError(InvalidLangError)
+      expect(() => render(
+        <Document lang="en_US" title="test" description="testing" />
+      )).toThrowError(InvalidLangError)
+      expect(() => render(
+        <Document lang="en-US" title="test" description="testing">
+          <Heading lang="sv--SE">titel</Heading>
+        </Document>
+      )).toThrowError(InvalidLangError)
+    })
+
+    it("sets dir when the script direction changes", () => {
+      const html = render(
+        <Document lang="ar" title="test" description="testing">
+          <P>
+            نص <Span lang="en-GB">text <Span lang="fa">متن</Span></Span>
+          </P>
+          <P lang="az-Arab">mətn</P>
+          <P lang="he" dir="auto">טקסט</P>
+        </Document>
+      )
+      const tree = parse(html)
+      expect(select("html[lang=ar][dir=rtl]", tree)).toBeTruthy()
+      expect(select("p > span[lang=en-GB][dir=ltr]", tree)).toBeTruthy()
+      expect(select("span > span[lang=fa][dir=rtl]", tree)).toBeTruthy()
+      expect(select("p[lang=az-Arab]:not([dir])", tree)).toBeTruthy()
+      expect(select("p[lang=he][dir=auto]", tree)).toBeTruthy()
+    })
+  })
+
+  describe("withAria()", () => {
+    it("only allows WAI-ARIA roles permitted on the element", () => {
+      expect(() => render(
+        <Document lang="en-US" title="test" description="testing">
+          <Heading role="presentation">title</Heading>
+          <Div role="switch checkbox" aria-checked="mixed" />
+        </Document>
+      )).not.toThrowError()
+      expect(() => render(
+        <Document lang="en-US" title="test" description="testing">
+          <Heading role="button">title</Heading>
+        </Document>
+      )).toThrowError(AriaRoleError)
+      expect(() => render(
+        <Document lang="en-US" title="test" description="testing">
+          <Div role="buton">title</Div>
+        </Document>
+      )).toThrowError(AriaRoleError)
+    })
+
+    it("allows an element's own implicit role", () => {
+      expect(() => render(
+        <Document lang="en-US" title="test" description="testing">
+          <Nav role="navigation">
+            <Ul role="list">
+              <Li><Anchor href="/">home</Anchor></Li>
+            </Ul>
+          </Nav>
+          <Main role="main">content</Main>
+        </Document>
+      )).not.toThrowError()
+      expect(() => render(
+        <Document lang="en-US" title="test" description="testing">
+          <Main role="navigation">content</Main>
+        </Document>
+      )).toThrowError(AriaRoleError)
+    })
+
+    it("requires roles to be inside their context roles", () => {
+      expect(() => render(
+        <Document lang="en-US" title="test" description="testing">
+          <Div role="list">
+            <Div>
+              <Span role="listitem">item</Span>
+            </Div>
+          </Div>
+        </Document>
+      )).not.toThrowError()
+      expect(() => render(
+        <Document lang="en-US" title="test" description="testing">
+          <Div role="listitem">item</Div>
+        </Document>
+      )).toThrowError(AriaContextError)
+    })
+
+    it("reports roles without their required owned roles", () => {
+      const diagnostics = []
+      render(
+        <Document
+          lang="en-US"
+          title="test"
+          description="testing"
+          diagnostics={diagnostics}
+        >
+          <Div role="tablist">
+            <Button>not a tab</Button>
+          </Div>
+        </Document>
+      )
+      expect(diagnostics).toHaveLength(1)
+      expect(diagnostics[0]).toBeInstanceOf(AriaOwnedError)
+      expect(diagnostics[0].message)
+        .toBe('html > body > div: role="tablist" requires an owned tab')
+    })
+
+    it("checks the types of aria-* attributes", () => {
+      // React also warns about the misspelled attribute.
+      const error = jest.spyOn(console, "error").mockImplementation(() => {})
+      const diagnostics = []
+      render(
+        <Document
+          lang="en-US"
+          title="test"
+          description="testing"
+          diagnostics={diagnostics}
+        >
+          <Div role="heading" aria-level={2}>title</Div>
+          <Div
+            aria-live="polite"
+            aria-relevant="additions text"
+            aria-busy={false}
+          />
+          <Div
+            // @ts-expect-error
+            aria-expanded="yes"
+            aria-lable="typo"
+          />
+        </Document>
+      )
+      expect(diagnostics).toHaveLength(2)
+      expect(diagnostics[0]).toBeInstanceOf(AriaAttributeError)
+      expect(diagnostics.map(d => d.message)).toEqual([
+        'html > body > div: aria-expanded="yes" is not one of false, true, undefined',
+        "html > body > div: Unknown ARIA attribute aria-lable",
+      ])
+      expect(error).toHaveBeenCalled()
+      error.mockRestore()
+    })
   })
 
   describe("withElementLevel()", () => {
@@ -295,7 +1195,49 @@ describe(name, () => {
         <Document lang="en-US" title="test" description="testing">
           <Span><Div>test</Div></Span>
         </Document>
-      )).toThrowError()
+      )).toThrowError(ElementLevelError)
+    })
+
+    it("reports the offending element and its ancestry", () => {
+      let error: ElementLevelError
+      try {
+        render(
+          <Document lang="en-US" title="test" description="testing">
+            <Span><Div>test</Div></Span>
+          </Document>
+        )
+      } catch (e) {
+        error = e
+      }
+      expect(error).toBeInstanceOf(ValidationError)
+      expect(error.element).toBe("div")
+      expect(error.ancestry).toEqual(["html", "body", "span"])
+      expect(error.expected).toBe("inline")
+      expect(error.actual).toBe("block")
+      expect(error.message).toMatch(/^html > body > span > div: /)
+    })
+  })
+
+  describe("<Li />", () => {
+    it("renders inside a list", async () => {
+      const html = render(
+        <Document lang="en-US" title="test" description="testing">
+          <Ul>
+            <Li>one</Li>
+          </Ul>
+        </Document>
+      )
+      const tree = parse(html)
+      const tag = select("ul > li", tree)
+      expect(tag.children[0].value).toBe("one")
+    })
+
+    it("cannot render outside a list", async () => {
+      expect(() => render(
+        <Document lang="en-US" title="test" description="testing">
+          <Li>one</Li>
+        </Document>
+      )).toThrowError(ContentCategoryError)
     })
   })
 
@@ -335,6 +1277,94 @@ describe(name, () => {
       const tag = select("main", tree)
       expect(tag).toBeTruthy()
     })
+
+    it("can only appear once per document", () => {
+      expect(() => render(
+        <Document lang="en-US" title="test" description="testing">
+          <Main />
+          <Main hidden />
+        </Document>
+      )).not.toThrowError()
+      expect(() => render(
+        <Document lang="en-US" title="test" description="testing">
+          <Main />
+          <Section><Main /></Section>
+        </Document>
+      )).toThrowError(DuplicateMainError)
+    })
+
+    it("is required by documents with requireMain", () => {
+      expect(() => render(
+        <Document lang="en-US" title="test" description="testing">
+          <P>text</P>
+        </Document>
+      )).not.toThrowError()
+      expect(() => render(
+        <Document lang="en-US" title="test" description="testing" requireMain>
+          <Main hidden />
+        </Document>
+      )).toThrowError(MissingMainError)
+      expect(() => render(
+        <Document lang="en-US" title="test" description="testing" requireMain>
+          <Main />
+        </Document>
+      )).not.toThrowError()
+    })
+
+    it("cannot be inside a header, footer or nav", () => {
+      expect(() => render(
+        <Document lang="en-US" title="test" description="testing">
+          <Header><Div><Main /></Div></Header>
+        </Document>
+      )).toThrowError(LandmarkNestingError)
+    })
+  })
+
+  describe("<Header />", () => {
+    it("cannot be inside another header or footer", () => {
+      let error: LandmarkNestingError
+      try {
+        render(
+          <Document lang="en-US" title="test" description="testing">
+            <Footer><Header /></Footer>
+          </Document>
+        )
+      } catch (e) {
+        error = e
+      }
+      expect(error).toBeInstanceOf(LandmarkNestingError)
+      expect(error.message)
+        .toBe("html > body > footer > header: <header> cannot be inside <footer>")
+    })
+  })
+
+  describe("<Nav />", () => {
+    it("requires distinct labels when there are several", () => {
+      expect(() => render(
+        <Document lang="en-US" title="test" description="testing">
+          <Nav aria-label="Primary" />
+          <Nav aria-label="Breadcrumbs" />
+          <Aside />
+        </Document>
+      )).not.toThrowError()
+
+      const diagnostics = []
+      render(
+        <Document
+          lang="en-US"
+          title="test"
+          description="testing"
+          diagnostics={diagnostics}
+        >
+          <Nav aria-label="Primary" />
+          <Nav aria-label="Primary" />
+          <Nav />
+        </Document>
+      )
+      expect(diagnostics).toHaveLength(2)
+      expect(diagnostics[0]).toBeInstanceOf(LandmarkNameError)
+      expect(diagnostics.map(d => d.actual)).toEqual(["Primary", undefined])
+    })
   })
 
   describe("<Meta />", () => {
@@ -370,6 +1400,23 @@ describe(name, () => {
         </Document>
       )).not.toThrowError()
     })
+
+    it("moves from <body> to <head> with renderDocument()", () => {
+      const html = renderDocument(
+        <Document lang="en-US" title="test" description="testing">
+          <Body>
+            <Section>
+              <Meta name="author" content="Henry" />
+              <Meta itemProp="name" content="The Castle" />
+            </Section>
+          </Body>
+        </Document>
+      )
+      const tree = parse(html)
+      expect(select("head > meta[name=author]", tree)).toBeTruthy()
+      expect(select("section > meta[name=author]", tree)).toBeFalsy()
+      expect(select("section > meta[itemprop=name]", tree)).toBeTruthy()
+    })
   })
 
   describe("<MetaCharset />", () => {
@@ -398,6 +1445,23 @@ describe(name, () => {
     })
   })
 
+  describe("<MetaRobots />", () => {
+    it("renders nothing without a value", () => {
+      const tree = parse(render(
+        <Document lang="en-US" title="test" description="testing">
+          <Head>
+            <MetaRobots />
+            <MetaThemeColor />
+            <JsonLdScript />
+          </Head>
+        </Document>
+      ))
+      expect(select("meta[name='robots']", tree)).toBeFalsy()
+      expect(select("meta[name='theme-color']", tree)).toBeFalsy()
+      expect(select("script", tree)).toBeFalsy()
+    })
+  })
+
   describe("<MetaViewport />", () => {
     it("sets the usual responsive defaults", async () => {
       const html = render(
@@ -413,6 +1477,272 @@ describe(name, () => {
     })
   })
 
+  describe("outline()", () => {
+    it("lists the headings of a document", () => {
+      expect(outline(
+        <Document lang="en-US" title="test" description="testing">
+          <Heading>title</Heading>
+          <Section>
+            <Heading id="intro">introduction</Heading>
+            <Nav>
+              <Heading>
+                <Span>contents</Span>
+              </Heading>
+            </Nav>
+          </Section>
+        </Document>
+      )).toEqual([
+        { level: 1, text: "title", id: undefined, section: "body" },
+        { level: 2, text: "introduction", id: "intro", section: "section" },
+        { level: 3, text: "contents", id: undefined, section: "nav" },
+      ])
+    })
+
+    it("accepts documents with a table of contents", () => {
+      expect(outline(
+        <Document lang="en-US" title="test" description="testing">
+          <TableOfContents />
+          <Heading>title</Heading>
+        </Document>
+      )).toEqual([
+        { level: 1, text: "title", id: undefined, section: "body" },
+      ])
+    })
+
+    it("accepts a tree of elements outside a document", () => {
+      expect(outline(
+        <Article>
+          <Heading>title</Heading>
+        </Article>
+      )).toEqual([
+        { level: 2, text: "title", id: undefined, section: "article" },
+      ])
+    })
+  })
+
+  describe("<MetaOpenGraph />", () => {
+    it("defaults to the document title and description", async () => {
+      const html = render(
+        <Document lang="en-US" title="test" description="testing">
+          <Head>
+            <MetaOpenGraph type="article" />
+          </Head>
+        </Document>
+      )
+      const tree = parse(html)
+      const title = select("meta[property='og:title']", tree)
+      const description = select("meta[property='og:description']", tree)
+      const type = select("meta[property='og:type']", tree)
+      expect(title.properties.content).toBe("test")
+      expect(description.properties.content).toBe("testing")
+      expect(type.properties.content).toBe("article")
+    })
+  })
+
+  describe("<P />", () => {
+    it("renders a <p> tag", async () => {
+      const html = render(
+        <Document lang="en-US" title="test" description="testing">
+          <P>text</P>
+        </Document>
+      )
+      const tree = parse(html)
+      const tag = select("p", tree)
+      expect(tag.children[0].value).toBe("text")
+    })
+
+    it("only accepts phrasing content", async () => {
+      expect(() => render(
+        <Document lang="en-US" title="test" description="testing">
+          <P><Section /></P>
+        </Document>
+      )).toThrowError(ContentModelError)
+    })
+  })
+
+  describe("renderDocumentAsync()", () => {
+    it("orders headings by position rather than by when they resolve", async () => {
+      const Slow = delay(20)
+      const Fast = delay(0)
+      const html = await renderDocumentAsync(
+        <Document lang="en-US" title="test" description="testing">
+          <Heading>title</Heading>
+          <Nav>
+            <TableOfContents />
+          </Nav>
+          <React.Suspense fallback={null}>
+            <Slow>
+              <Section>
+                <Heading>Example</Heading>
+              </Section>
+            </Slow>
+          </React.Suspense>
+          <React.Suspense fallback={null}>
+            <Fast>
+              <Section>
+                <Heading>Example</Heading>
+              </Section>
+            </Fast>
+          </React.Suspense>
+        </Document>
+      )
+      const tree = parse(html)
+      const headings = selectAll("section > h2", tree)
+      expect(headings.map(heading => heading.properties.id)).toEqual([
+        "example",
+        "example-1",
+      ])
+      const links = selectAll("nav a", tree)
+      expect(links.map(link => link.properties.href)).toEqual([
+        "#title",
+        "#example",
+        "#example-1",
+      ])
+    })
+
+    it("levels headings after the Suspense boundaries before them", async () => {
+      const Slow = delay(20)
+      const html = await renderDocumentAsync(
+        <Document lang="en-US" title="test" description="testing">
+          <Heading>title</Heading>
+          <React.Suspense fallback={null}>
+            <Slow>
+              <Heading level={2}>two</Heading>
+            </Slow>
+          </React.Suspense>
+          <Heading>another two</Heading>
+        </Document>
+      )
+      const tree = parse(html)
+      expect(selectAll("body > h2", tree).map(h2 => h2.children[0].value))
+        .toEqual(["two", "another two"])
+    })
+
+    it("collects diagnostics in document order", async () => {
+      const Slow = delay(20)
+      const Fast = delay(0)
+      const diagnostics = []
+      await renderDocumentAsync(
+        <Document
+          lang="en-US"
+          title="test"
+          description="testing"
+          diagnostics={diagnostics}
+        >
+          <React.Suspense fallback={null}>
+            <Slow>
+              <Img src="/image.png" alt="" />
+            </Slow>
+          </React.Suspense>
+          <React.Suspense fallback={null}>
+            <Fast>
+              <Heading>title</Heading>
+              <Heading level={3}>skipped</Heading>
+            </Fast>
+          </React.Suspense>
+        </Document>
+      )
+      expect(diagnostics.map(diagnostic => diagnostic.rule)).toEqual([
+        "missing-dimensions",
+        "heading-level",
+      ])
+    })
+
+    it("collects violations into the diagnostics option", async () => {
+      const diagnostics = []
+      await renderDocumentAsync(
+        <Document lang="en-US" title="test" description="testing">
+          <Heading>title</Heading>
+          <Heading level={3}>skipped</Heading>
+        </Document>,
+        { diagnostics },
+      )
+      expect(diagnostics.map(diagnostic => diagnostic.rule)).toEqual([
+        "heading-level",
+      ])
+    })
+
+    it("checks heading levels across Suspense boundaries", async () => {
+      const Slow = delay(20)
+      await expect(renderDocumentAsync(
+        <Document lang="en-US" title="test" description="testing">
+          <React.Suspense fallback={null}>
+            <Slow>
+              <Heading>title</Heading>
+            </Slow>
+          </React.Suspense>
+          <Heading level={3}>skipped</Heading>
+        </Document>
+      )).rejects.toThrowError(HeadingLevelError)
+    })
+
+    it("rejects with violations thrown inside Suspense boundaries", async () => {
+      const Slow = delay(20)
+      await expect(renderDocumentAsync(
+        <Document lang="en-US" title="test" description="testing">
+          <React.Suspense fallback={null}>
+            <Slow>
+              <P><Section /></P>
+            </Slow>
+          </React.Suspense>
+        </Document>
+      )).rejects.toThrowError(ContentModelError)
+    })
+
+    it("warns when a plain stream renders content after reporting", async () => {
+      const Slow = delay(20)
+      const warn = jest.spyOn(console, "warn").mockImplementation(() => {})
+      await new Promise<void>((resolve, reject) => {
+        ReactDOMServer.renderToPipeableStream(
+          <Document lang="en-US" title="test" description="testing">
+            <React.Suspense fallback={null}>
+              <Slow>
+                <Div id="a" />
+              </Slow>
+            </React.Suspense>
+          </Document>,
+          { onAllReady: resolve, onShellError: reject },
+        )
+      })
+      expect(warn).toHaveBeenCalledTimes(1)
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining("renderDocumentAsync()"),
+      )
+      warn.mockRestore()
+    })
+
+    it("moves metadata from Suspense boundaries into <head>", async () => {
+      const Slow = delay(20)
+      const html = await renderDocumentAsync(
+        <Document lang="en-US" title="test" description="testing">
+          <React.Suspense fallback={null}>
+            <Slow>
+              <Meta name="author" content="Henry" />
+            </Slow>
+          </React.Suspense>
+        </Document>
+      )
+      const tree = parse(html)
+      expect(select("head > meta[name=author]", tree)).toBeTruthy()
+      expect(select("body meta[name=author]", tree)).toBeFalsy()
+    })
+  })
+
+  describe("<Section />", () => {
+    it("renders a <section> tag", async () => {
+      const html = render(
+        <Document lang="en-US" title="test" description="testing">
+          <Section>
+            <P>text</P>
+          </Section>
+        </Document>
+      )
+      const tree = parse(html)
+      const tag = select("section > p", tree)
+      expect(tag).toBeTruthy()
+    })
+  })
+
   describe("<Span />", () => {
     it("renders a <span> tag", async () => {
       const html = render(
@@ -439,5 +1769,290 @@ describe(name, () => {
       const tag = select("link[rel=stylesheet]", tree)
       expect(tag.properties.href).toBe("style.css")
     })
+
+    it("moves from <body> to <head> with renderDocument()", () => {
+      const html = renderDocument(
+        <Document lang="en-US" title="test" description="testing">
+          <Body>
+            <P>text</P>
+            <StylesheetLink href="widget.css" />
+          </Body>
+        </Document>
+      )
+      const tree = parse(html)
+      expect(select("head > link[href='widget.css']", tree)).toBeTruthy()
+      expect(select("body link", tree)).toBeFalsy()
+    })
+  })
+
+  describe("<Table />", () => {
+    it("renders rows of cells", async () => {
+      const html = render(
+        <Document lang="en-US" title="test" description="testing">
+          <Table>
+            <Caption>test</Caption>
+            <TBody>
+              <Tr>
+                <Td>cell</Td>
+              </Tr>
+            </TBody>
+          </Table>
+        </Document>
+      )
+      const tree = parse(html)
+      const tag = select("table > tbody > tr > td", tree)
+      expect(tag.children[0].value).toBe("cell")
+    })
+
+    it("cannot render a cell outside a row", async () => {
+      expect(() => render(
+        <Document lang="en-US" title="test" description="testing">
+          <Table aria-label="test">
+            <Td>cell</Td>
+          </Table>
+        </Document>
+      )).toThrowError(ValidationError)
+    })
+
+    it("renders items under a row of column headers", () => {
+      const html = render(
+        <Document lang="en-US" title="test" description="testing">
+          <Table
+            columns={["Name", "Height"]}
+            items={[
+              ["Ben Nevis", "1345m"],
+              ["Snowdon", "1085m"],
+            ]}
+          >
+            <Caption>Mountains</Caption>
+          </Table>
+        </Document>
+      )
+      const tree = parse(html)
+      expect(select("table > caption:first-child", tree)).toBeTruthy()
+      expect(selectAll("thead > tr > th[scope=col]", tree)).toHaveLength(2)
+      expect(selectAll("tbody > tr", tree)).toHaveLength(2)
+      expect(select("tbody > tr > td", tree).children[0].value)
+        .toBe("Ben Nevis")
+    })
+
+    it("requires a caption or accessible name", () => {
+      expect(() => render(
+        <Document lang="en-US" title="test" description="testing">
+          <Table items={[["cell"]]} />
+        </Document>
+      )).toThrowError(MissingTableNameError)
+      expect(() => render(
+        <Document lang="en-US" title="test" description="testing">
+          <Heading id="heading">Cells</Heading>
+          <Table aria-labelledby="heading" items={[["cell"]]} />
+        </Document>
+      )).not.toThrowError()
+    })
+
+    it("requires every row to span the same number of columns", () => {
+      expect(() => render(
+        <Document lang="en-US" title="test" description="testing">
+          <Table aria-label="test">
+            <THead>
+              <Tr><Th>a</Th><Th>b</Th><Th>c</Th></Tr>
+            </THead>
+            <TBody>
+              <Tr><Td rowSpan={2}>1</Td><Td colSpan={2}>2</Td></Tr>
+              <Tr><Td>3</Td><Td>4</Td></Tr>
+            </TBody>
+          </Table>
+        </Document>
+      )).not.toThrowError()
+
+      const diagnostics = []
+      render(
+        <Document
+          lang="en-US"
+          title="test"
+          description="testing"
+          diagnostics={diagnostics}
+        >
+          <Table aria-label="test">
+            <Tr><Th>a</Th><Th>b</Th></Tr>
+            <Tr><Td>1</Td></Tr>
+            <Tr><Td>2</Td><Td>3</Td><Td>4</Td></Tr>
+          </Table>
+        </Document>
+      )
+      expect(diagnostics).toHaveLength(2)
+      expect(diagnostics[0]).toBeInstanceOf(TableColumnsError)
+      expect(diagnostics.map(d => d.row)).toEqual([2, 3])
+      expect(diagnostics.map(d => d.actual)).toEqual([1, 3])
+    })
+
+    it("skips the checks that children of other components could affect", () => {
+      const MyCaption = () => <Caption>Mountains</Caption>
+      const Row = ({ cells }: { cells: string[] }) => (
+        <Tr>{cells.map(cell => <Td key={cell}>{cell}</Td>)}</Tr>
+      )
+      const diagnostics = []
+      const html = render(
+        <Document
+          lang="en-US"
+          title="test"
+          description="testing"
+          diagnostics={diagnostics}
+        >
+          <Table>
+            <MyCaption />
+            <TBody>
+              <Tr><Td rowSpan={2}>Scotland</Td><Td>Ben Nevis</Td></Tr>
+              <Row cells={["Ben Macdui"]} />
+              <Tr><Td>Wales</Td><Td>Snowdon</Td></Tr>
+            </TBody>
+          </Table>
+        </Document>
+      )
+      expect(diagnostics).toEqual([])
+      const tree = parse(html)
+      expect(select("table > caption", tree)).toBeTruthy()
+      expect(selectAll("tbody > tr", tree)).toHaveLength(3)
+    })
+
+    it("checks scope and headers against the table's header cells", () => {
+      const diagnostics = []
+      render(
+        <Document
+          lang="en-US"
+          title="test"
+          description="testing"
+          diagnostics={diagnostics}
+        >
+          <Table aria-label="test">
+            <Tr><Th id="name" scope="column">Name</Th></Tr>
+            <Tr><Td headers="name">Ben Nevis</Td></Tr>
+            <Tr><Td headers="name height">1345m</Td></Tr>
+          </Table>
+        </Document>
+      )
+      expect(diagnostics).toHaveLength(2)
+      expect(diagnostics[0]).toBeInstanceOf(TableHeaderError)
+      expect(diagnostics.map(d => d.attribute)).toEqual(["scope", "headers"])
+      expect(diagnostics[1].message)
+        .toBe('html > body > table > tr > td: headers="height" does not refer to a <th> in this table')
+    })
+  })
+
+  describe("<Title />", () => {
+    it("replaces the document title from anywhere in <body>", () => {
+      const html = renderDocument(
+        <Document lang="en-US" title="test" description="testing">
+          <Body>
+            <Article>
+              <Title>Article title</Title>
+            </Article>
+          </Body>
+        </Document>
+      )
+      const tree = parse(html)
+      const tags = selectAll("title", tree)
+      expect(tags).toHaveLength(1)
+      expect(tags[0].children[0].value).toBe("Article title")
+      expect(select("head > title", tree)).toBeTruthy()
+    })
+  })
+
+  describe("<Video />", () => {
+    it("requires a width and height", () => {
+      expect(() => render(
+        <Document lang="en-US" title="test" description="testing">
+          <Video src="clip.mp4" controls>
+            <Track kind="captions" src="clip.vtt" srcLang="en" />
+          </Video>
+        </Document>
+      )).toThrowError(MissingDimensionsError)
+    })
+  })
+
+  describe("<TableOfContents />", () => {
+    it("links to every heading in the document", () => {
+      const html = renderDocument(
+        <Document lang="en-US" title="test" description="testing">
+          <Heading>title</Heading>
+          <Nav>
+            <TableOfContents />
+          </Nav>
+          <Section>
+            <Heading>Getting started</Heading>
+            <Section>
+              <Heading>Installation</Heading>
+            </Section>
+          </Section>
+          <Section>
+            <Heading id="usage">Usage</Heading>
+          </Section>
+        </Document>
+      )
+      const tree = parse(html)
+      expect(select("body > h1#title", tree)).toBeTruthy()
+      expect(select("section > h2#getting-started", tree)).toBeTruthy()
+      expect(select("section > h3#installation", tree)).toBeTruthy()
+      expect(select("section > h2#usage", tree)).toBeTruthy()
+      expect(select(
+        "nav > ul > li > ul > li > a[href='#getting-started']",
+        tree,
+      )).toBeTruthy()
+      expect(select(
+        "nav > ul > li > ul > li > ul > li > a[href='#installation']",
+        tree,
+      )).toBeTruthy()
+      expect(select(
+        "nav > ul > li > ul > li > a[href='#usage']",
+        tree,
+      )).toBeTruthy()
+    })
+
+    it("gives repeated headings distinct ids", () => {
+      const html = renderDocument(
+        <Document lang="en-US" title="test" description="testing">
+          <TableOfContents />
+          <Heading>Example</Heading>
+          <Heading>Example</Heading>
+        </Document>
+      )
+      const tree = parse(html)
+      expect(select("h1#example", tree)).toBeTruthy()
+      expect(select("h1#example-1", tree)).toBeTruthy()
+      expect(select("a[href='#example-1']", tree)).toBeTruthy()
+    })
+
+    it("does not reuse ids already in the document", () => {
+      const tree = parse(renderDocument(
+        <Document lang="en-US" title="test" description="testing">
+          <TableOfContents />
+          <Heading>Intro</Heading>
+          <Div id="intro" />
+          <Heading id="intro-1">Background</Heading>
+          <Heading>Intro</Heading>
+        </Document>
+      ))
+      expect(selectAll("h1", tree).map(h1 => h1.properties.id)).toEqual([
+        "intro-2",
+        "intro-1",
+        "intro-3",
+      ])
+
+      expect(() => renderDocument(
+        <Document lang="en-US" title="test" description="testing">
+          <TableOfContents />
+          <Heading id="intro">Intro</Heading>
+          <Heading>Intro</Heading>
+        </Document>
+      )).not.toThrowError()
+    })
+
+    it("requires renderDocument()", () => {
+      expect(() => render(
+        <Document lang="en-US" title="test" description="testing">
+          <TableOfContents />
+        </Document>
+      )).toThrowError()
+    })
   })
 })
@@ -1,4 +1,6 @@
 import React from "react"
+import ReactDOMServer from "react-dom/server"
+import { Writable } from "stream"
 
 /**
  * https://developer.mozilla.org/en-US/docs/Web/HTML/Block-level_elements
@@ -14,11 +16,43 @@ export type ElementLevel =
  */
 export type ElementName = 
   | "a"
+  | "abbr"
+  | "address"
+  | "area"
+  | "article"
+  | "aside"
+  | "audio"
+  | "b"
+  | "base"
+  | "bdi"
+  | "bdo"
+  | "blockquote"
   | "body"
+  | "br"
+  | "button"
+  | "canvas"
+  | "caption"
+  | "cite"
+  | "code"
+  | "col"
+  | "colgroup"
+  | "data"
+  | "datalist"
   | "dd"
+  | "del"
+  | "details"
+  | "dfn"
+  | "dialog"
+  | "div"
   | "dl"
   | "dt"
-  | "div"
+  | "em"
+  | "embed"
+  | "fieldset"
+  | "figcaption"
+  | "figure"
+  | "footer"
+  | "form"
   | "h1"
   | "h2"
   | "h3"
@@ -27,18 +61,99 @@ export type ElementName =
   | "h6"
   | "head"
   | "header"
+  | "hgroup"
+  | "hr"
   | "html"
-  | "footer"
+  | "i"
+  | "iframe"
+  | "img"
+  | "input"
+  | "ins"
+  | "kbd"
+  | "label"
+  | "legend"
+  | "li"
   | "link"
   | "main"
+  | "map"
+  | "mark"
+  | "menu"
   | "meta"
+  | "meter"
+  | "nav"
+  | "noscript"
+  | "object"
+  | "ol"
+  | "optgroup"
+  | "option"
+  | "output"
+  | "p"
+  | "picture"
+  | "pre"
+  | "progress"
+  | "q"
+  | "rp"
+  | "rt"
+  | "ruby"
+  | "s"
+  | "samp"
+  | "script"
+  | "section"
+  | "select"
+  | "slot"
+  | "small"
+  | "source"
   | "span"
+  | "strong"
+  | "style"
+  | "sub"
+  | "summary"
+  | "sup"
+  | "table"
+  | "tbody"
+  | "td"
+  | "template"
+  | "textarea"
+  | "tfoot"
+  | "th"
+  | "thead"
+  | "time"
+  | "title"
+  | "tr"
+  | "track"
+  | "u"
+  | "ul"
+  | "var"
+  | "video"
+  | "wbr"
+
+/**
+ * https://html.spec.whatwg.org/multipage/custom-elements.html#valid-custom-element-name
+ */
+export type CustomElementName = `${string}-${string}`
+
+export type TagName =
+  | ElementName
+  | CustomElementName
 
-export type ContentCategorizer = ({ props, ancestry }: {
-  props: React.HTMLAttributes<HTMLElement>,
-  ancestry: ElementName[],
+export type ContentCategorizer<
+  Props = React.HTMLAttributes<HTMLElement>
+> = ({ props, ancestry }: {
+  props: Props,
+  ancestry: TagName[],
 }) => ContentCategory[]
 
+/**
+ * https://html.spec.whatwg.org/multipage/dom.html#content-models
+ */
+export type ContentModel<
+  Props = React.HTMLAttributes<HTMLElement>
+> = ({ props, ancestry, parent }: {
+  props: Props,
+  ancestry: TagName[],
+  parent?: PermittedContent[],
+}) => PermittedContent[]
+
 /**
  * https://developer.mozilla.org/en-US/docs/Web/Guide/HTML/Content_categories
  */
@@ -52,6 +167,225 @@ export type ContentCategory =
   | "phrasing"
   | "sectioning"
 
+/**
+ * https://developer.mozilla.org/en-US/docs/Web/HTML/Element#technical_summary
+ */
+export type PermittedContent =
+  | ContentCategory
+  | TagName
+
+/**
+ * https://www.w3.org/TR/wai-aria-1.2/#role_definitions
+ */
+const AriaRoles = [
+  "alert",
+  "alertdialog",
+  "application",
+  "article",
+  "banner",
+  "blockquote",
+  "button",
+  "caption",
+  "cell",
+  "checkbox",
+  "code",
+  "columnheader",
+  "combobox",
+  "complementary",
+  "contentinfo",
+  "definition",
+  "deletion",
+  "dialog",
+  "directory",
+  "document",
+  "emphasis",
+  "feed",
+  "figure",
+  "form",
+  "generic",
+  "grid",
+  "gridcell",
+  "group",
+  "heading",
+  "img",
+  "insertion",
+  "link",
+  "list",
+  "listbox",
+  "listitem",
+  "log",
+  "main",
+  "marquee",
+  "math",
+  "menu",
+  "menubar",
+  "menuitem",
+  "menuitemcheckbox",
+  "menuitemradio",
+  "meter",
+  "navigation",
+  "none",
+  "note",
+  "option",
+  "paragraph",
+  "presentation",
+  "progressbar",
+  "radio",
+  "radiogroup",
+  "region",
+  "row",
+  "rowgroup",
+  "rowheader",
+  "scrollbar",
+  "search",
+  "searchbox",
+  "separator",
+  "slider",
+  "spinbutton",
+  "status",
+  "strong",
+  "subscript",
+  "superscript",
+  "switch",
+  "tab",
+  "table",
+  "tablist",
+  "tabpanel",
+  "term",
+  "textbox",
+  "time",
+  "timer",
+  "toolbar",
+  "tooltip",
+  "tree",
+  "treegrid",
+  "treeitem",
+] as const
+
+export type AriaRole = typeof AriaRoles[number]
+
+/**
+ * A validation rule that an element can violate.
+ */
+export type ValidationRule =
+  | "aria-attribute"
+  | "aria-context"
+  | "aria-owned"
+  | "aria-role"
+  | "content-category"
+  | "content-model"
+  | "dangling-reference"
+  | "duplicate-id"
+  | "duplicate-main"
+  | "element-level"
+  | "figcaption-position"
+  | "heading-level"
+  | "interactive-content"
+  | "invalid-lang"
+  | "landmark-name"
+  | "landmark-nesting"
+  | "metadata-conflict"
+  | "missing-alt"
+  | "missing-alternate"
+  | "missing-dimensions"
+  | "missing-label"
+  | "missing-lang"
+  | "missing-main"
+  | "missing-table-name"
+  | "table-columns"
+  | "table-header"
+
+/**
+ * A rule violation collected instead of thrown when `Document` is given a
+ * `diagnostics` array.
+ */
+export interface Diagnostic {
+  rule: ValidationRule
+  element: TagName
+  ancestry: TagName[]
+  message: string
+}
+
+/**
+ * https://ogp.me/
+ */
+export type OpenGraph = {
+  type?: string
+  title?: string
+  description?: string
+  url?: string
+  image?: string
+  imageAlt?: string
+  siteName?: string
+  locale?: string
+}
+
+/**
+ * https://developer.twitter.com/en/docs/twitter-for-websites/cards/overview/markup
+ */
+export type TwitterCard = {
+  card: "summary" | "summary_large_image" | "app" | "player"
+  site?: string
+  creator?: string
+  title?: string
+  description?: string
+  image?: string
+  imageAlt?: string
+}
+
+/**
+ * https://developer.mozilla.org/en-US/docs/Web/HTML/Attributes/rel#attr-icon
+ */
+export type Icon = {
+  href: string
+  rel?: "icon" | "apple-touch-icon" | "mask-icon"
+  sizes?: string
+  type?: string
+}
+
+/**
+ * https://developers.google.com/search/docs/advanced/robots/robots_meta_tag
+ */
+export type RobotsDirective =
+  | "all"
+  | "follow"
+  | "index"
+  | "noarchive"
+  | "nofollow"
+  | "noimageindex"
+  | "noindex"
+  | "none"
+  | "nosnippet"
+  | "notranslate"
+
+/**
+ * Metadata that `Document` passes down for `Head` to emit.
+ */
+export type DocumentMetadata = {
+  alternates?: Record<string, string>
+  icons?: Icon[]
+  jsonLd?: object | object[]
+  openGraph?: OpenGraph
+  robots?: RobotsDirective[]
+  themeColor?: string
+  twitter?: TwitterCard
+}
+
+/**
+ * Props for elements that can't have children, such as `<br>` or `<img>`.
+ * Passing children to one of these is a type error.
+ *
+ * That's as far as the types can go. Every JSX expression has the same
+ * `JSX.Element` type whichever component it renders, so a prop can't
+ * accept some elements and reject others. Content models like
+ * `<Span><Div /></Span>` are only checked when the document renders.
+ *
+ * https://developer.mozilla.org/en-US/docs/Glossary/Void_element
+ */
+export type VoidElementProps<Props> = Omit<Props, "children"> & {
+  children?: never
+}
+
 /**
  * https://developer.mozilla.org/en-US/docs/Web/HTML/Element/Heading_Elements
  */
@@ -63,411 +397,4071 @@ export type HeadingLevel =
   | 5
   | 6
 
-const ElementLevels: Partial<Record<ElementName, ElementLevel>> = {
-  html: "undefined",
+/**
+ * One sectioning element, or the document itself at depth 0. Headings are
+ * checked against the previous heading in the same scope, and unlevelled
+ * headings resolve to `depth + 1`.
+ */
+export type HeadingScope = {
+  depth: number
+  element: TagName
 }
 
-const ElementContentCategories: Partial<Record<
-  ElementName,
-  ContentCategorizer
->> = {
-  html: () => [],
+/**
+ * One heading in a document outline, as returned by `outline()`.
+ */
+export type OutlineItem = {
+  level: HeadingLevel
+  text: string
+  id?: string
+  section: TagName
 }
 
-const AncestryContext = React.createContext<ElementName[]>([])
-const HeadingLevelContext = React.createContext<React.MutableRefObject<HeadingLevel>>(undefined)
-const LanguageContext = React.createContext<React.MutableRefObject<string>>(undefined)
-const TitleContext = React.createContext("")
-const DescriptionContext = React.createContext("")
+export type RenderOptions = {
+  /**
+   * Collects the violations of every `<Document>` that doesn't have its own
+   * `diagnostics`, instead of throwing the first of them.
+   */
+  diagnostics?: Diagnostic[]
+  /**
+   * Throws a `MissingDocumentError` if `element` doesn't render a
+   * `<Document>`, rather than returning whatever it did render.
+   */
+  requireDocument?: boolean
+}
 
-const withAncestry = (Component, name: ElementName) => props => {
-  const ancestry = React.useContext(AncestryContext)
-  const { children, ...rest } = props
-  
-  const contentCategories = ElementContentCategories[name]({ props, ancestry })
+export type ElementDefinition<Props = React.HTMLAttributes<HTMLElement>> = {
+  level: ElementLevel
+  contentCategories: ContentCategorizer<Props>
+  contentModel: ContentModel<Props>
+}
+
+export type ElementRegistry = {
+  get(name: TagName): ElementDefinition | undefined
+  define(name: TagName, definition: ElementDefinition): void
+  extend(
+    definitions?: Partial<Record<ElementName, ElementDefinition>>
+  ): ElementRegistry
+}
+
+export type ValidationErrorDetails<Expected, Actual> = {
+  element: TagName
+  ancestry: TagName[]
+  expected: Expected
+  actual: Actual
+}
 
-  if (ancestry.includes("body") && !contentCategories.includes("flow")) {
-    throw new Error("Cannot render non-flow content inside <body>")
+/**
+ * Thrown by `renderDocument()` and `renderDocumentAsync()` with
+ * `requireDocument` when nothing was rendered inside a `<Document>`.
+ */
+export class MissingDocumentError extends Error {
+  constructor() {
+    super("Nothing was rendered inside a <Document>")
+    this.name = new.target.name
   }
+}
 
-  if (ancestry.includes("head") && !contentCategories.includes("metadata")) {
-    throw new Error("Cannot render flow content inside <head>")
+/**
+ * Base class for every rule violation. The message is prefixed with the path
+ * from the document root to the offending element, e.g.
+ * `html > body > span > div`.
+ */
+export class ValidationError<Expected = unknown, Actual = unknown>
+  extends Error
+  implements Diagnostic {
+  rule: ValidationRule
+  element: TagName
+  ancestry: TagName[]
+  expected: Expected
+  actual: Actual
+
+  constructor(
+    rule: ValidationRule,
+    details: ValidationErrorDetails<Expected, Actual>,
+    message: string,
+  ) {
+    const path = [...details.ancestry, details.element].join(" > ")
+    super(`${path}: ${message}`)
+    this.name = new.target.name
+    this.rule = rule
+    this.element = details.element
+    this.ancestry = details.ancestry
+    this.expected = details.expected
+    this.actual = details.actual
   }
+}
 
-  if (children) {
-    return (
-      <Component {...rest}>
-        <AncestryContext.Provider value={[...ancestry, name]}>
-          {children}
-        </AncestryContext.Provider>
-      </Component>
+/**
+ * Thrown when an `aria-*` attribute doesn't exist or its value has the wrong
+ * type. `expected` describes the values the attribute accepts.
+ */
+export class AriaAttributeError extends ValidationError<string, unknown> {
+  attribute: string
+
+  constructor(details: ValidationErrorDetails<string, unknown>, attribute: string) {
+    super(
+      "aria-attribute",
+      details,
+      details.expected === undefined
+        ? `Unknown ARIA attribute ${attribute}`
+        : `${attribute}="${details.actual}" is not ${details.expected}`,
     )
+    this.attribute = attribute
   }
-  return <Component {...props} />
 }
 
-const withLanguage = Component => props => {
-  const parentLanguage = React.useContext(LanguageContext)
-  const { lang, children, ...rest } = props
-  const langRef = React.useRef(lang)
-  if (!lang || lang === parentLanguage.current) {
-    return <Component {...rest} children={children} />
-  } else if (children) {
-    return (
-      <Component {...rest} lang={lang}>
-        <LanguageContext.Provider value={langRef}>
-          {children}
-        </LanguageContext.Provider>
-      </Component>
+/**
+ * Thrown when a role that must be owned by certain roles, like `listitem`
+ * by `list`, is rendered outside them. `actual` is the closest ancestor role.
+ */
+export class AriaContextError extends ValidationError<
+  AriaRole[],
+  AriaRole | undefined
+> {
+  role: AriaRole
+
+  constructor(
+    details: ValidationErrorDetails<AriaRole[], AriaRole | undefined>,
+    role: AriaRole,
+  ) {
+    super(
+      "aria-context",
+      details,
+      `role="${role}" must be inside ${details.expected.join(" or ")}`,
     )
-  } else {
-    return <Component {...props} />
+    this.role = role
   }
 }
 
-const withElementLevel = (Component, level: ElementLevel) => props => {
-  const ancestry = React.useContext(AncestryContext)
-  const parentName = ancestry[ancestry.length - 1]
-  const parentLevel = ElementLevels[parentName]
+/**
+ * Thrown when a role that must own certain roles, like `list` owning
+ * `listitem`, has none of them among its descendants.
+ */
+export class AriaOwnedError extends ValidationError<AriaRole[], AriaRole[]> {
+  role: AriaRole
 
-  if (parentLevel === "inline" && level === "block") {
-    throw new Error("Block element not allowed as child of inline element")
+  constructor(
+    details: ValidationErrorDetails<AriaRole[], AriaRole[]>,
+    role: AriaRole,
+  ) {
+    super(
+      "aria-owned",
+      details,
+      `role="${role}" requires an owned ${details.expected.join(" or ")}`,
+    )
+    this.role = role
   }
+}
 
-  return <Component {...props} />
+/**
+ * Thrown when a `role` isn't a WAI-ARIA role or isn't allowed on the element
+ * it's given to. `expected` lists the roles the element allows.
+ */
+export class AriaRoleError extends ValidationError<AriaRole[], string> {
+  constructor(details: ValidationErrorDetails<AriaRole[], string>) {
+    super(
+      "aria-role",
+      details,
+      AriaRoles.includes(details.actual as AriaRole)
+        ? `role="${details.actual}" is not allowed on <${details.element}>`
+        : `"${details.actual}" is not a WAI-ARIA role`,
+    )
+  }
 }
 
-function element<Props>({
-  name,
-  level = "undefined",
-  contentCategories,
-  component = props => React.createElement(name, props),
-}: {
-  name: ElementName,
-  level?: ElementLevel,
-  contentCategories: ContentCategorizer,
-  component?: (props: Props) => React.ReactElement,
-}): React.FC<Props> {
-  ElementLevels[name] = level
-  ElementContentCategories[name] = contentCategories
+/**
+ * Thrown when an element's content categories don't include the category
+ * required by its container, e.g. flow content inside `<head>`.
+ */
+export class ContentCategoryError extends ValidationError<
+  ContentCategory,
+  ContentCategory[]
+> {
+  constructor(details: ValidationErrorDetails<
+    ContentCategory,
+    ContentCategory[]
+  >) {
+    super(
+      "content-category",
+      details,
+      `<${details.element}> is not ${details.expected} content`,
+    )
+  }
+}
 
-  component = withAncestry(component, name)
-  component = withElementLevel(component, level)
-  component = withLanguage(component)
-  return component
+/**
+ * Thrown when an element isn't permitted by its parent's content model.
+ */
+export class ContentModelError extends ValidationError<
+  PermittedContent[],
+  ContentCategory[]
+> {
+  constructor(details: ValidationErrorDetails<
+    PermittedContent[],
+    ContentCategory[]
+  >) {
+    const parentName = details.ancestry[details.ancestry.length - 1]
+    super(
+      "content-model",
+      details,
+      `Cannot render <${details.element}> inside <${parentName}>`,
+    )
+  }
 }
 
-export const Anchor = element<
-  React.AnchorHTMLAttributes<HTMLAnchorElement>
->({
-  name: "a",
-  level: "inline",
-  contentCategories: () => [
-    "flow",
-    "phrasing",
-  ],
-})
+/**
+ * Thrown when a `<figcaption>` is neither the first nor the last child of its
+ * `<figure>`. `actual` is its position among the figure's children.
+ */
+export class FigcaptionPositionError extends ValidationError<
+  ("first" | "last")[],
+  number
+> {
+  constructor(details: ValidationErrorDetails<("first" | "last")[], number>) {
+    super(
+      "figcaption-position",
+      details,
+      `<${details.element}> must be the first or last child of its <figure>`,
+    )
+  }
+}
 
-export const Body = element<
-  React.HTMLAttributes<HTMLBodyElement>
->({
-  name: "body",
-  level: "block",
-  contentCategories: () => [],
-})
+/**
+ * Thrown when an attribute such as `aria-labelledby` or `href="#..."` refers
+ * to an id that no element in the document has.
+ */
+export class DanglingReferenceError extends ValidationError<"id", string> {
+  attribute: string
 
-export const CanonicalLink: React.FC<{
-  href: string
-}> = ({ href }) => <Link rel="canonical" href={href} />
+  constructor(details: ValidationErrorDetails<"id", string>, attribute: string) {
+    super(
+      "dangling-reference",
+      details,
+      `${attribute} refers to missing id "${details.actual}"`,
+    )
+    this.attribute = attribute
+  }
+}
 
-export const DescriptionDetails = element<
-  React.HTMLAttributes<HTMLElement>
->({
-  name: "dd",
-  level: "block",
-  contentCategories: () => ["flow"],
-})
+/**
+ * Thrown when two elements in a document share an id.
+ */
+export class DuplicateIdError extends ValidationError<"unique", string> {
+  constructor(details: ValidationErrorDetails<"unique", string>) {
+    super(
+      "duplicate-id",
+      details,
+      `Duplicate id "${details.actual}"`,
+    )
+  }
+}
 
-export const DescriptionList = element<
-  React.HTMLAttributes<HTMLElement> & {
-    items?: [
-      React.ReactNode | string,
-      React.ReactNode | string,
-    ][]
+/**
+ * Thrown when a document has more than one visible `<main>`.
+ */
+export class DuplicateMainError extends ValidationError<1, number> {
+  constructor(details: ValidationErrorDetails<1, number>) {
+    super(
+      "duplicate-main",
+      details,
+      `A document can only have one <${details.element}>`,
+    )
   }
+}
+
+/**
+ * Thrown when a block element is rendered inside an inline element.
+ */
+export class ElementLevelError extends ValidationError<
+  ElementLevel,
+  ElementLevel
+> {
+  constructor(details: ValidationErrorDetails<ElementLevel, ElementLevel>) {
+    super(
+      "element-level",
+      details,
+      `Block element not allowed as child of ${details.expected} element`,
+    )
+  }
+}
+
+/**
+ * Thrown when a heading skips a rank relative to the previous heading.
+ */
+export class HeadingLevelError extends ValidationError<
+  HeadingLevel,
+  HeadingLevel
+> {
+  constructor(details: ValidationErrorDetails<HeadingLevel, HeadingLevel>) {
+    super(
+      "heading-level",
+      details,
+      `Heading level ${details.actual} not allowed: previous level is ${details.expected}`,
+    )
+  }
+}
+
+/**
+ * Thrown when interactive content is rendered inside an element that can't
+ * contain it, such as a link inside a button.
+ */
+export class InteractiveContentError extends ValidationError<
+  TagName,
+  ContentCategory[]
+> {
+  constructor(details: ValidationErrorDetails<TagName, ContentCategory[]>) {
+    super(
+      "interactive-content",
+      details,
+      `Interactive content not allowed inside <${details.expected}>`,
+    )
+  }
+}
+
+/**
+ * Thrown when a document has several landmarks of the same kind, like two
+ * `<nav>`s, and one of them has no label or shares its label with another.
+ */
+export class LandmarkNameError extends ValidationError<
+  "unique",
+  string | undefined
+> {
+  constructor(details: ValidationErrorDetails<"unique", string | undefined>) {
+    super(
+      "landmark-name",
+      details,
+      details.actual === undefined
+        ? `<${details.element}> requires an aria-label or aria-labelledby when there are several`
+        : `<${details.element}> shares its label "${details.actual}" with another <${details.element}>`,
+    )
+  }
+}
+
+/**
+ * Thrown when a landmark is rendered inside one it can't be nested in, like
+ * `<main>` inside `<header>`. `actual` is the offending ancestor.
+ */
+export class LandmarkNestingError extends ValidationError<TagName[], TagName> {
+  constructor(details: ValidationErrorDetails<TagName[], TagName>) {
+    super(
+      "landmark-nesting",
+      details,
+      `<${details.element}> cannot be inside <${details.actual}>`,
+    )
+  }
+}
+
+/**
+ * Thrown when a `lang` attribute isn't a well-formed BCP 47 language tag.
+ */
+export class InvalidLangError extends ValidationError<"BCP 47", string> {
+  constructor(details: ValidationErrorDetails<"BCP 47", string>) {
+    super(
+      "invalid-lang",
+      details,
+      `"${details.actual}" is not a valid BCP 47 language tag`,
+    )
+  }
+}
+
+/**
+ * Thrown when `<head>` contains two different values for metadata that can
+ * only appear once, such as two canonical URLs.
+ */
+export class MetadataConflictError extends ValidationError<string, string> {
+  key: string
+
+  constructor(details: ValidationErrorDetails<string, string>, key: string) {
+    super(
+      "metadata-conflict",
+      details,
+      `Conflicting ${key} metadata: "${details.expected}" and "${details.actual}"`,
+    )
+    this.key = key
+  }
+}
+
+/**
+ * Thrown when an image has no `alt` attribute. Decorative images should pass
+ * an empty string.
+ */
+export class MissingAltError extends ValidationError<"string", undefined> {
+  constructor(details: ValidationErrorDetails<"string", undefined>) {
+    super(
+      "missing-alt",
+      details,
+      `<${details.element}> requires an alt attribute`,
+    )
+  }
+}
+
+/**
+ * Thrown when a document lists alternate language versions of itself but
+ * leaves out its own language.
+ */
+export class MissingAlternateError extends ValidationError<string, string[]> {
+  constructor(details: ValidationErrorDetails<string, string[]>) {
+    super(
+      "missing-alternate",
+      details,
+      `No alternate link for the document language "${details.expected}"`,
+    )
+  }
+}
+
+/**
+ * Thrown when an image or video is missing `width` or `height`, which the
+ * browser needs to reserve space for it before it loads.
+ */
+export class MissingDimensionsError extends ValidationError<
+  ("height" | "width")[],
+  ("height" | "width")[]
+> {
+  constructor(details: ValidationErrorDetails<
+    ("height" | "width")[],
+    ("height" | "width")[]
+  >) {
+    const missing = details.expected.filter(a => !details.actual.includes(a))
+    super(
+      "missing-dimensions",
+      details,
+      missing.length > 1
+        ? `<${details.element}> requires width and height attributes`
+        : `<${details.element}> requires a ${missing[0]} attribute`,
+    )
+  }
+}
+
+/**
+ * Thrown when a form control has no label: it isn't inside a `<label>`, no
+ * `<label htmlFor>` refers to its `id` and it has no ARIA label.
+ */
+export class MissingLabelError extends ValidationError<
+  "label",
+  string | undefined
+> {
+  constructor(details: ValidationErrorDetails<"label", string | undefined>) {
+    super(
+      "missing-label",
+      details,
+      `<${details.element}> requires a <label>, aria-label or aria-labelledby`,
+    )
+  }
+}
+
+/**
+ * Thrown when a document is rendered without a `lang` attribute.
+ */
+export class MissingLangError extends ValidationError<
+  "string",
+  string | undefined
+> {
+  constructor(details: ValidationErrorDetails<"string", string | undefined>) {
+    super(
+      "missing-lang",
+      details,
+      `<${details.element}> requires a lang attribute`,
+    )
+  }
+}
+
+/**
+ * Thrown when a document with `requireMain` has no visible `<main>`.
+ */
+export class MissingMainError extends ValidationError<1, 0> {
+  constructor(details: ValidationErrorDetails<1, 0>) {
+    super(
+      "missing-main",
+      details,
+      `<${details.element}> requires a <main>`,
+    )
+  }
+}
+
+/**
+ * Thrown when a table has neither a `<caption>` nor an ARIA label to give it
+ * an accessible name.
+ */
+export class MissingTableNameError extends ValidationError<
+  "caption",
+  undefined
+> {
+  constructor(details: ValidationErrorDetails<"caption", undefined>) {
+    super(
+      "missing-table-name",
+      details,
+      `<${details.element}> requires a <caption>, aria-label or aria-labelledby`,
+    )
+  }
+}
+
+/**
+ * Thrown when a table row spans a different number of columns to the first
+ * row of its table. `row` counts from 1 across all of the table's rows.
+ */
+export class TableColumnsError extends ValidationError<number, number> {
+  row: number
+
+  constructor(details: ValidationErrorDetails<number, number>, row: number) {
+    super(
+      "table-columns",
+      details,
+      `Row ${row} spans ${details.actual} columns but the first row spans ${details.expected}`,
+    )
+    this.row = row
+  }
+}
+
+/**
+ * Thrown when a cell's `scope` isn't a valid keyword or its `headers` refers
+ * to something other than a `<th>` in the same table.
+ */
+export class TableHeaderError extends ValidationError<string[], string> {
+  attribute: "headers" | "scope"
+
+  constructor(
+    details: ValidationErrorDetails<string[], string>,
+    attribute: "headers" | "scope",
+  ) {
+    super(
+      "table-header",
+      details,
+      attribute === "scope"
+        ? `scope="${details.actual}" is not one of ${details.expected.join(", ")}`
+        : `headers="${details.actual}" does not refer to a <th> in this table`,
+    )
+    this.attribute = attribute
+  }
+}
+
+/**
+ * Creates a registry of element definitions. Lookups that miss fall through
+ * to `parent`, so an extended registry can override individual elements
+ * without affecting anyone else using the parent.
+ */
+export function createElementRegistry(
+  definitions: Partial<Record<ElementName, ElementDefinition>> = {},
+  parent?: ElementRegistry,
+): ElementRegistry {
+  const own: Record<string, ElementDefinition> = { ...definitions }
+  const registry: ElementRegistry = {
+    get: name => own[name] ?? parent?.get(name),
+    define: (name, definition) => {
+      if (own[name]) {
+        throw new Error(`<${name}> is already defined in this registry`)
+      }
+      own[name] = definition
+    },
+    extend: definitions => createElementRegistry(definitions, registry),
+  }
+  return registry
+}
+
+/**
+ * The registry every built-in element is defined in.
+ */
+export const defaultElementRegistry = createElementRegistry({
+  html: {
+    level: "undefined",
+    contentCategories: () => [],
+    contentModel: () => ["head", "body"],
+  },
+})
+
+const ElementRegistryContext = React.createContext<ElementRegistry>(
+  defaultElementRegistry
+)
+
+const AncestryContext = React.createContext<TagName[]>([])
+const ContentModelContext = React.createContext<PermittedContent[]>(undefined)
+const HeadingScopeContext = React.createContext<HeadingScope>(undefined)
+/**
+ * A heading as the first pass of `renderDocument()` saw it. `requested` is
+ * the level it was given, if any.
+ */
+type OutlineEntry = {
+  position: number[]
+  scope: HeadingScope
+  requested?: HeadingLevel
+  item: OutlineItem
+}
+
+const OutlineContext = React.createContext<OutlineEntry[]>(undefined)
+const TableOfContentsContext = React.createContext<{
+  found: boolean
+  outline?: OutlineItem[]
+}>(undefined)
+const HeadHoistingContext = React.createContext<{
+  collected?: { position: number[], element: React.ReactElement }[]
+  hoisted?: React.ReactElement[]
+}>(undefined)
+const RenderContext = React.createContext<{
+  documents: DocumentState[]
+  diagnostics?: Diagnostic[]
+}>(undefined)
+const ResolvedHeadingsContext = React.createContext<Map<string, {
+  id?: string
+  level: HeadingLevel
+}[]>>(undefined)
+const LanguageContext = React.createContext<string>(undefined)
+const DocumentContext = React.createContext<DocumentState>(undefined)
+const PositionContext = React.createContext<number[]>([])
+type AriaOwnership = {
+  role: AriaRole
+  owned: AriaRole[]
+}
+const AriaRoleContext = React.createContext<AriaOwnership>(undefined)
+const InteractiveContext = React.createContext<TagName>(undefined)
+const TitleContext = React.createContext("")
+const DescriptionContext = React.createContext("")
+const MetadataContext = React.createContext<DocumentMetadata>({})
+const OverriddenMetadataContext = React.createContext(new Set<string>())
+
+/**
+ * A violation, or a possible one, and the position of the element it was
+ * found on.
+ */
+type PositionedError<Error extends ValidationError = ValidationError> = {
+  position: number[]
+  error: Error
+}
+
+/**
+ * What a document collects while it renders. Everything is kept with the
+ * position of the element it came from and reported in document order once
+ * the whole document has rendered, however its parts were scheduled.
+ */
+type DocumentState = {
+  ariaOwners: PositionedError<AriaOwnedError>[]
+  diagnostics?: Diagnostic[]
+  headings: {
+    position: number[]
+    scope: HeadingScope
+    ancestry: TagName[]
+    level: HeadingLevel
+  }[]
+  ids: PositionedError<DuplicateIdError>[]
+  labelled: Set<string>
+  landmarks: PositionedError<LandmarkNameError>[]
+  mains: { position: number[], ancestry: TagName[] }[]
+  references: PositionedError<DanglingReferenceError>[]
+  reported: boolean
+  requireMain: boolean
+  unchecked: boolean
+  unlabelled: PositionedError<MissingLabelError>[]
+  violations: PositionedError[]
+}
+
+function createDocumentState(
+  diagnostics?: Diagnostic[],
+  requireMain = false,
+): DocumentState {
+  return {
+    ariaOwners: [],
+    diagnostics,
+    headings: [],
+    ids: [],
+    labelled: new Set(),
+    landmarks: [],
+    mains: [],
+    references: [],
+    reported: false,
+    requireMain,
+    unchecked: false,
+    unlabelled: [],
+    violations: [],
+  }
+}
+
+type Reporter = (error: ValidationError) => void
+
+function violation(report: Reporter | undefined, error: ValidationError): void {
+  if (!report) {
+    throw error
+  }
+  report(error)
+}
+
+/**
+ * Returns the document being rendered. Content that renders after its
+ * document has reported can't be checked, which happens when a Suspense
+ * boundary resolves late in a stream that `renderDocumentAsync()` isn't
+ * waiting for, so that's warned about once per document.
+ */
+function useDocument(): DocumentState | undefined {
+  const document = React.useContext(DocumentContext)
+  if (document?.reported && !document.unchecked) {
+    document.unchecked = true
+    console.warn(
+      "Content rendered after its <Document> reported its violations and "
+      + "was not checked. Render documents containing Suspense boundaries "
+      + "with renderDocumentAsync().",
+    )
+  }
+  return document
+}
+
+/**
+ * Returns a reporter that records violations against the current element's
+ * position, or `undefined` if they should be thrown instead.
+ */
+function useDiagnostics(): Reporter | undefined {
+  const document = useDocument()
+  const position = React.useContext(PositionContext)
+  if (!document?.diagnostics) {
+    return undefined
+  }
+  return error => document.violations.push({ position, error })
+}
+
+function comparePositions(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) {
+      return a[i] - b[i]
+    }
+  }
+  return a.length - b.length
+}
+
+function inDocumentOrder<Entry extends { position: number[] }>(
+  entries: Entry[],
+): Entry[] {
+  return [...entries].sort((a, b) => comparePositions(a.position, b.position))
+}
+
+/**
+ * Gives each element in `children` its own position below the current one,
+ * which is what the checks that need the whole document are ordered by.
+ */
+const Positioned: React.FC<{ children?: React.ReactNode }> = ({ children }) => {
+  const position = React.useContext(PositionContext)
+  return (
+    <>
+      {React.Children.map(children, (child, i) => (
+        React.isValidElement(child) ? (
+          <PositionContext.Provider value={[...position, i]}>
+            {child.type === React.Fragment ? (
+              <Positioned>
+                {(child.props as { children?: React.ReactNode }).children}
+              </Positioned>
+            ) : child}
+          </PositionContext.Provider>
+        ) : child
+      ))}
+    </>
+  )
+}
+
+function positioned(children: React.ReactNode): React.ReactNode {
+  return React.Children.toArray(children).some(React.isValidElement)
+    ? <Positioned>{children}</Positioned>
+    : children
+}
+
+function textContent(node: React.ReactNode): string {
+  if (typeof node === "string" || typeof node === "number") {
+    return `${node}`
+  }
+  if (Array.isArray(node)) {
+    return node.map(textContent).join("")
+  }
+  if (React.isValidElement(node)) {
+    return textContent((node.props as { children?: React.ReactNode }).children)
+  }
+  return ""
+}
+
+/**
+ * Slugifies `text`, adding a numeric suffix if the slug is already in
+ * `taken`, and reserves the result.
+ */
+function uniqueSlug(taken: Set<string>, text: string): string {
+  const slug = text
+    .toLowerCase()
+    .trim()
+    .replace(/[^\p{L}\p{N}\s-]/gu, "")
+    .replace(/\s+/g, "-")
+    || "section"
+  let unique = slug
+  for (let count = 1; taken.has(unique); count++) {
+    unique = `${slug}-${count}`
+  }
+  taken.add(unique)
+  return unique
+}
+
+const ReservedCustomElementNames = [
+  "annotation-xml",
+  "color-profile",
+  "font-face",
+  "font-face-src",
+  "font-face-uri",
+  "font-face-format",
+  "font-face-name",
+  "missing-glyph",
+]
+
+const CustomElementNameChars = [
+  "-.0-9_a-z",
+  "\\u00B7",
+  "\\u00C0-\\u00D6",
+  "\\u00D8-\\u00F6",
+  "\\u00F8-\\u037D",
+  "\\u037F-\\u1FFF",
+  "\\u200C-\\u200D",
+  "\\u203F-\\u2040",
+  "\\u2070-\\u218F",
+  "\\u2C00-\\u2FEF",
+  "\\u3001-\\uD7FF",
+  "\\uF900-\\uFDCF",
+  "\\uFDF0-\\uFFFD",
+  "\\u{10000}-\\u{EFFFF}",
+].join("")
+
+const CustomElementNamePattern = new RegExp(
+  `^[a-z][${CustomElementNameChars}]*-[${CustomElementNameChars}]*$`,
+  "u",
+)
+
+function isCustomElementName(name: string): boolean {
+  return CustomElementNamePattern.test(name)
+    && !ReservedCustomElementNames.includes(name)
+}
+
+const LanguageTagPattern = new RegExp([
+  "^(?:",
+  "(?:[a-z]{2,3}(?:-[a-z]{3}){0,3}|[a-z]{4,8})",
+  "(?:-[a-z]{4})?",
+  "(?:-(?:[a-z]{2}|[0-9]{3}))?",
+  "(?:-(?:[a-z0-9]{5,8}|[0-9][a-z0-9]{3}))*",
+  "(?:-[0-9a-wyz](?:-[a-z0-9]{2,8})+)*",
+  "(?:-x(?:-[a-z0-9]{1,8})+)?",
+  "|x(?:-[a-z0-9]{1,8})+",
+  ")$",
+].join(""), "i")
+
+function isLanguageTag(tag: string): boolean {
+  return LanguageTagPattern.test(tag)
+}
+
+function sameLanguage(a: string | undefined, b: string | undefined): boolean {
+  return a?.toLowerCase() === b?.toLowerCase()
+}
+
+const RightToLeftLanguages = [
+  "ar", "arc", "ckb", "dv", "fa", "he", "iw", "khw", "ks", "ps", "sd",
+  "syr", "ug", "ur", "yi",
+]
+
+const RightToLeftScripts = [
+  "adlm", "arab", "hebr", "mand", "mend", "nkoo", "rohg", "samr", "syrc",
+  "thaa", "yezi",
+]
+
+function languageDirection(tag: string | undefined): "ltr" | "rtl" {
+  const [language, ...subtags] = (tag ?? "").toLowerCase().split("-")
+  const script = subtags.find(subtag => /^[a-z]{4}$/.test(subtag))
+  if (script) {
+    return RightToLeftScripts.includes(script) ? "rtl" : "ltr"
+  }
+  return RightToLeftLanguages.includes(language) ? "rtl" : "ltr"
+}
+
+function flattenChildren(children: React.ReactNode): React.ReactNode[] {
+  return React.Children.toArray(children).flatMap(child => (
+    React.isValidElement(child) && child.type === React.Fragment
+      ? flattenChildren((child.props as { children?: React.ReactNode }).children)
+      : [child]
+  ))
+}
+
+/**
+ * Open Graph properties that can only have one value. The rest, like
+ * `og:image`, are arrays made by repeating the property.
+ *
+ * https://ogp.me/#array
+ */
+const SingleValuedProperties = [
+  "og:description",
+  "og:determiner",
+  "og:locale",
+  "og:site_name",
+  "og:title",
+  "og:type",
+  "og:url",
+]
+
+/**
+ * The key that identifies a piece of metadata which may only appear once in
+ * `<head>`, or undefined for anything that can repeat.
+ */
+function metadataKey(node: React.ReactNode): string | undefined {
+  if (!React.isValidElement(node)) {
+    return undefined
+  }
+
+  const { type } = node
+  const props = node.props as Record<string, any>
+  if (type === MetaCharset) {
+    return "charset"
+  } else if (type === MetaViewport) {
+    return "name:viewport"
+  } else if (type === MetaDescription) {
+    return "name:description"
+  } else if (type === MetaThemeColor) {
+    return "name:theme-color"
+  } else if (type === MetaRobots) {
+    return "name:robots"
+  } else if (type === CanonicalLink) {
+    return "canonical"
+  } else if (type === AlternateLink) {
+    return `alternate:${props.hreflang.toLowerCase()}`
+  } else if (type === "title" || type === Title) {
+    return "title"
+  } else if (type === Meta || type === "meta") {
+    if (props.charSet) {
+      return "charset"
+    } else if (props.name) {
+      return `name:${props.name}`
+    } else if (SingleValuedProperties.includes(props.property)) {
+      return `property:${props.property}`
+    } else if (props.httpEquiv) {
+      return `http-equiv:${props.httpEquiv}`
+    }
+  } else if (type === Link || type === "link") {
+    if (props.rel === "canonical") {
+      return "canonical"
+    } else if (props.rel === "alternate" && props.hrefLang) {
+      return `alternate:${props.hrefLang.toLowerCase()}`
+    }
+  }
+  return undefined
+}
+
+function metadataValue(node: React.ReactElement): string {
+  const props = node.props as Record<string, any>
+  if (node.type === "title" || node.type === Title) {
+    return textContent(props.children)
+  }
+  return props.content ?? props.href ?? props.charSet ?? JSON.stringify(props)
+}
+
+function metadataElement(key: string): ElementName {
+  if (key === "canonical" || key.startsWith("alternate:")) {
+    return "link"
+  } else if (key === "title") {
+    return "title"
+  }
+  return "meta"
+}
+
+function isPermittedContent(
+  name: TagName,
+  contentCategories: ContentCategory[],
+  permittedContent: PermittedContent[],
+): boolean {
+  return permittedContent.includes(name)
+    || contentCategories.some(c => permittedContent.includes(c))
+}
+
+const TableHeaderScopes = ["col", "colgroup", "row", "rowgroup"]
+
+function tableTagName(node: React.ReactNode): TagName | undefined {
+  if (!React.isValidElement(node)) {
+    return undefined
+  } else if (typeof node.type === "string") {
+    return node.type as TagName
+  }
+
+  const components = new Map<unknown, TagName>([
+    [Caption, "caption"],
+    [TBody, "tbody"],
+    [Td, "td"],
+    [TFoot, "tfoot"],
+    [Th, "th"],
+    [THead, "thead"],
+    [Tr, "tr"],
+  ])
+  return components.get(node.type)
+}
+
+function tableChildren(
+  children: React.ReactNode,
+  names: TagName[],
+): React.ReactElement[] {
+  return flattenChildren(children).filter(child => (
+    names.includes(tableTagName(child))
+  )) as React.ReactElement[]
+}
+
+/**
+ * Whether `children` includes a component that might render table content,
+ * like a `<Row />` of the user's own, which can't be inspected.
+ */
+function hasOpaqueChildren(children: React.ReactNode): boolean {
+  return flattenChildren(children).some(child => (
+    React.isValidElement(child) && !tableTagName(child)
+  ))
+}
+
+/**
+ * Checks a table's structure by inspecting the elements passed to it. Rows
+ * and cells rendered by other components can't be seen, so the checks they
+ * could affect are skipped when there are any.
+ */
+function validateTable(
+  diagnostics: Reporter | undefined,
+  ancestry: TagName[],
+  props: React.TableHTMLAttributes<HTMLTableElement>,
+  children: React.ReactNode,
+): void {
+  const captions = tableChildren(children, ["caption"])
+  if (
+    captions.length === 0
+    && !hasOpaqueChildren(children)
+    && !props["aria-label"]
+    && !props["aria-labelledby"]
+  ) {
+    violation(diagnostics, new MissingTableNameError({
+      element: "table",
+      ancestry: ancestry.slice(0, -1),
+      expected: "caption",
+      actual: undefined,
+    }))
+  }
+
+  const groups: { ancestry: TagName[], rows: React.ReactElement[] }[] = []
+  for (const child of tableChildren(children, [
+    "tbody",
+    "tfoot",
+    "thead",
+    "tr",
+  ])) {
+    const name = tableTagName(child)
+    if (name !== "tr") {
+      groups.push({
+        ancestry: [...ancestry, name],
+        rows: tableChildren(child.props.children, ["tr"]),
+      })
+    } else if (groups[groups.length - 1]?.ancestry === ancestry) {
+      groups[groups.length - 1].rows.push(child)
+    } else {
+      groups.push({ ancestry, rows: [child] })
+    }
+  }
+
+  const opaque = hasOpaqueChildren(children) || [
+    ...tableChildren(children, ["tbody", "tfoot", "thead"]),
+    ...groups.flatMap(group => group.rows),
+  ].some(element => hasOpaqueChildren(element.props.children))
+  const cells: [TagName[], React.ReactElement][] = []
+  let columns: number
+  let rowNumber = 0
+  for (const group of groups) {
+    const grid: boolean[][] = group.rows.map(() => [])
+    group.rows.forEach((row, r) => {
+      let column = 0
+      for (const cell of tableChildren(row.props.children, ["td", "th"])) {
+        const { colSpan = 1, rowSpan = 1 } = cell.props
+        while (grid[r][column]) {
+          column++
+        }
+        const rowsSpanned = rowSpan === 0
+          ? grid.length - r
+          : Math.min(Math.max(rowSpan, 1), grid.length - r)
+        for (let i = 0; i < rowsSpanned; i++) {
+          for (let j = 0; j < Math.max(colSpan, 1); j++) {
+            grid[r + i][column + j] = true
+          }
+        }
+        column += Math.max(colSpan, 1)
+        cells.push([[...group.ancestry, "tr"], cell])
+      }
+
+      rowNumber++
+      const width = grid[r].filter(Boolean).length
+      columns = columns ?? width
+      if (!opaque && width !== columns) {
+        violation(diagnostics, new TableColumnsError({
+          element: "tr",
+          ancestry: group.ancestry,
+          expected: columns,
+          actual: width,
+        }, rowNumber))
+      }
+    })
+  }
+
+  const headerIds = cells
+    .filter(([, cell]) => tableTagName(cell) === "th" && cell.props.id)
+    .map(([, cell]) => cell.props.id as string)
+  for (const [cellAncestry, cell] of cells) {
+    const element = tableTagName(cell)
+    const { headers, scope } = cell.props
+    if (element === "th" && scope && !TableHeaderScopes.includes(scope)) {
+      violation(diagnostics, new TableHeaderError({
+        element,
+        ancestry: cellAncestry,
+        expected: TableHeaderScopes,
+        actual: scope,
+      }, "scope"))
+    }
+    for (const id of (headers ?? "").split(/\s+/).filter(Boolean)) {
+      if (!opaque && !headerIds.includes(id)) {
+        violation(diagnostics, new TableHeaderError({
+          element,
+          ancestry: cellAncestry,
+          expected: headerIds,
+          actual: id,
+        }, "headers"))
+      }
+    }
+  }
+}
+
+function validateDimensions(
+  diagnostics: Reporter | undefined,
+  ancestry: TagName[],
+  props: { height?: number | string, width?: number | string },
+): void {
+  const dimensions = (["width", "height"] as const).filter(dimension => (
+    props[dimension] !== undefined
+  ))
+  if (dimensions.length < 2) {
+    violation(diagnostics, new MissingDimensionsError({
+      element: ancestry[ancestry.length - 1],
+      ancestry: ancestry.slice(0, -1),
+      expected: ["width", "height"],
+      actual: dimensions,
+    }))
+  }
+}
+
+const withAncestry = (
+  Component,
+  name: TagName,
+  fallback: ElementDefinition,
+) => props => {
+  const ancestry = React.useContext(AncestryContext)
+  const permittedContent = React.useContext(ContentModelContext)
+  const diagnostics = useDiagnostics()
+  const registry = React.useContext(ElementRegistryContext)
+  const definition = registry.get(name) ?? fallback
+  
+  const contentCategories = definition.contentCategories({ props, ancestry })
+  const permittedByName = !!permittedContent?.includes(name)
+
+  if (
+    ancestry.includes("body")
+    && !permittedByName
+    && !contentCategories.includes("flow")
+  ) {
+    violation(diagnostics, new ContentCategoryError({
+      element: name,
+      ancestry,
+      expected: "flow",
+      actual: contentCategories,
+    }))
+  } else if (
+    ancestry.includes("head")
+    && !permittedByName
+    && !contentCategories.includes("metadata")
+  ) {
+    violation(diagnostics, new ContentCategoryError({
+      element: name,
+      ancestry,
+      expected: "metadata",
+      actual: contentCategories,
+    }))
+  } else if (permittedContent && !isPermittedContent(
+    name,
+    contentCategories,
+    permittedContent,
+  )) {
+    violation(diagnostics, new ContentModelError({
+      element: name,
+      ancestry,
+      expected: permittedContent,
+      actual: contentCategories,
+    }))
+  }
+
+  const contentModel = definition.contentModel({
+    props,
+    ancestry,
+    parent: permittedContent,
+  })
+
+  return (
+    <AncestryContext.Provider value={[...ancestry, name]}>
+      <ContentModelContext.Provider value={contentModel}>
+        <Component {...props} />
+      </ContentModelContext.Provider>
+    </AncestryContext.Provider>
+  )
+}
+
+const withLanguage = (Component, name?: TagName) => props => {
+  const ancestry = React.useContext(AncestryContext)
+  const diagnostics = useDiagnostics()
+  const parentLanguage = React.useContext(LanguageContext)
+  const { lang, children, ...rest } = props
+  if (name && lang && !isLanguageTag(lang)) {
+    violation(diagnostics, new InvalidLangError({
+      element: name,
+      ancestry,
+      expected: "BCP 47",
+      actual: lang,
+    }))
+  }
+
+  if (!lang || sameLanguage(lang, parentLanguage)) {
+    return <Component {...rest} children={children} />
+  }
+
+  const direction = languageDirection(lang)
+  const dir = props.dir
+    ?? (direction !== languageDirection(parentLanguage)
+      ? direction
+      : undefined)
+  if (children) {
+    return (
+      <Component {...rest} lang={lang} dir={dir}>
+        <LanguageContext.Provider value={lang}>
+          {positioned(children)}
+        </LanguageContext.Provider>
+      </Component>
+    )
+  } else {
+    return <Component {...props} dir={dir} />
+  }
+}
+
+const withHeadingScope = (
+  Component,
+  name: TagName,
+  fallback: ElementDefinition,
+) => props => {
+  const ancestry = React.useContext(AncestryContext)
+  const parentScope = React.useContext(HeadingScopeContext)
+  const registry = React.useContext(ElementRegistryContext)
+  const depth = (parentScope?.depth ?? 0) + 1
+
+  const { contentCategories: categorize } = registry.get(name) ?? fallback
+  const contentCategories = categorize({ props, ancestry })
+  if (!parentScope || !contentCategories.includes("sectioning")) {
+    return <Component {...props} />
+  }
+
+  return (
+    <HeadingScopeContext.Provider value={{ depth, element: name }}>
+      <Component {...props} />
+    </HeadingScopeContext.Provider>
+  )
+}
+
+/**
+ * Lets metadata rendered anywhere in `<body>` be moved into `<head>` by
+ * `renderDocument()`. The first pass collects it and the second renders it
+ * in `<head>` instead of where it was written.
+ */
+function withHeadHoisting<Props>(
+  Component: React.FC<Props>,
+  hoistable: (props: Props) => boolean = () => true,
+): React.FC<Props> {
+  const Hoistable: React.FC<Props> = props => {
+    const ancestry = React.useContext(AncestryContext)
+    const hoisting = React.useContext(HeadHoistingContext)
+    const position = React.useContext(PositionContext)
+    if (!hoisting || !ancestry.includes("body") || !hoistable(props)) {
+      return <Component {...props} />
+    }
+
+    hoisting.collected?.push({ position, element: <Hoistable {...props} /> })
+    return null
+  }
+  return Hoistable
+}
+
+const withElementLevel = (
+  Component,
+  name: TagName,
+  fallback: ElementDefinition,
+) => props => {
+  const ancestry = React.useContext(AncestryContext)
+  const diagnostics = useDiagnostics()
+  const registry = React.useContext(ElementRegistryContext)
+  const parentName = ancestry[ancestry.length - 1]
+  const parentLevel = registry.get(parentName)?.level
+  const { level } = registry.get(name) ?? fallback
+
+  if (parentLevel === "inline" && level === "block") {
+    violation(diagnostics, new ElementLevelError({
+      element: name,
+      ancestry,
+      expected: parentLevel,
+      actual: level,
+    }))
+  }
+
+  return <Component {...props} />
+}
+
+/**
+ * Interactive elements whose content model allows interactive descendants,
+ * like the control inside a `<label>`.
+ */
+const InteractiveContentHosts: TagName[] = [
+  "audio",
+  "details",
+  "label",
+  "select",
+  "video",
+]
+
+/**
+ * https://www.w3.org/TR/html-aria/#docconformance
+ */
+const AllowedRoles: Partial<Record<
+  ElementName,
+  AriaRole[] | ((props: Record<string, any>) => AriaRole[] | undefined)
+>> = {
+  a: props => props.href === undefined ? undefined : [
+    "button",
+    "checkbox",
+    "menuitem",
+    "menuitemcheckbox",
+    "menuitemradio",
+    "option",
+    "radio",
+    "switch",
+    "tab",
+    "treeitem",
+  ],
+  article: [
+    "application",
+    "document",
+    "feed",
+    "main",
+    "none",
+    "presentation",
+    "region",
+  ],
+  aside: ["feed", "none", "note", "presentation", "region", "search"],
+  audio: ["application"],
+  base: [],
+  body: [],
+  br: ["none", "presentation"],
+  button: [
+    "checkbox",
+    "combobox",
+    "link",
+    "menuitem",
+    "menuitemcheckbox",
+    "menuitemradio",
+    "option",
+    "radio",
+    "switch",
+    "tab",
+  ],
+  caption: [],
+  col: [],
+  colgroup: [],
+  datalist: [],
+  dd: [],
+  details: [],
+  dialog: ["alertdialog"],
+  dl: ["group", "list", "none", "presentation"],
+  dt: ["listitem"],
+  fieldset: ["group", "none", "presentation", "radiogroup"],
+  figcaption: ["group", "none", "presentation"],
+  footer: ["group", "none", "presentation"],
+  form: ["none", "presentation", "search"],
+  h1: ["none", "presentation", "tab"],
+  h2: ["none", "presentation", "tab"],
+  h3: ["none", "presentation", "tab"],
+  h4: ["none", "presentation", "tab"],
+  h5: ["none", "presentation", "tab"],
+  h6: ["none", "presentation", "tab"],
+  head: [],
+  header: ["group", "none", "presentation"],
+  hr: ["none", "presentation"],
+  html: [],
+  iframe: ["application", "document", "img", "none", "presentation"],
+  img: props => props.alt === "" ? ["none", "presentation"] : props.alt && [
+    "button",
+    "checkbox",
+    "link",
+    "menuitem",
+    "menuitemcheckbox",
+    "menuitemradio",
+    "meter",
+    "option",
+    "progressbar",
+    "radio",
+    "scrollbar",
+    "separator",
+    "slider",
+    "switch",
+    "tab",
+    "treeitem",
+  ],
+  label: [],
+  legend: [],
+  li: [
+    "menuitem",
+    "menuitemcheckbox",
+    "menuitemradio",
+    "none",
+    "option",
+    "presentation",
+    "radio",
+    "separator",
+    "tab",
+    "treeitem",
+  ],
+  link: [],
+  main: [],
+  map: [],
+  menu: [
+    "directory",
+    "group",
+    "listbox",
+    "menu",
+    "menubar",
+    "none",
+    "presentation",
+    "radiogroup",
+    "tablist",
+    "toolbar",
+    "tree",
+  ],
+  meta: [],
+  meter: [],
+  nav: ["menu", "menubar", "none", "presentation", "tablist"],
+  noscript: [],
+  ol: [
+    "directory",
+    "group",
+    "listbox",
+    "menu",
+    "menubar",
+    "none",
+    "presentation",
+    "radiogroup",
+    "tablist",
+    "toolbar",
+    "tree",
+  ],
+  optgroup: [],
+  option: [],
+  picture: [],
+  progress: [],
+  script: [],
+  section: [
+    "alert",
+    "alertdialog",
+    "application",
+    "banner",
+    "complementary",
+    "contentinfo",
+    "dialog",
+    "document",
+    "feed",
+    "group",
+    "log",
+    "main",
+    "marquee",
+    "navigation",
+    "none",
+    "note",
+    "presentation",
+    "search",
+    "status",
+    "tabpanel",
+  ],
+  select: ["menu"],
+  slot: [],
+  source: [],
+  style: [],
+  summary: [],
+  template: [],
+  textarea: [],
+  title: [],
+  track: [],
+  ul: [
+    "directory",
+    "group",
+    "listbox",
+    "menu",
+    "menubar",
+    "none",
+    "presentation",
+    "radiogroup",
+    "tablist",
+    "toolbar",
+    "tree",
+  ],
+  wbr: ["none", "presentation"],
+}
+
+/**
+ * `<header>`, `<footer>` and `<aside>` are only landmarks outside of
+ * sectioning content.
+ */
+const landmark = (role: AriaRole) => (
+  props: Record<string, any>,
+  ancestry: TagName[],
+): AriaRole => ancestry.some(tag => (
+  ["article", "aside", "main", "nav", "section"].includes(tag)
+)) ? "generic" : role
+
+/**
+ * The role each element has without a `role` attribute. Giving an element
+ * its own implicit role is redundant but allowed.
+ *
+ * https://www.w3.org/TR/html-aria/#docconformance
+ */
+const ElementRoles: Partial<Record<
+  ElementName,
+  AriaRole | ((props: Record<string, any>, ancestry: TagName[]) => AriaRole)
+>> = {
+  a: props => props.href === undefined ? "generic" : "link",
+  address: "group",
+  area: props => props.href === undefined ? "generic" : "link",
+  article: "article",
+  aside: landmark("complementary"),
+  b: "generic",
+  bdi: "generic",
+  bdo: "generic",
+  blockquote: "blockquote",
+  body: "generic",
+  button: "button",
+  caption: "caption",
+  code: "code",
+  data: "generic",
+  datalist: "listbox",
+  dd: "definition",
+  del: "deletion",
+  details: "group",
+  dfn: "term",
+  dialog: "dialog",
+  div: "generic",
+  dt: "term",
+  em: "emphasis",
+  fieldset: "group",
+  figure: "figure",
+  footer: landmark("contentinfo"),
+  form: "form",
+  h1: "heading",
+  h2: "heading",
+  h3: "heading",
+  h4: "heading",
+  h5: "heading",
+  h6: "heading",
+  header: landmark("banner"),
+  hgroup: "group",
+  hr: "separator",
+  html: "document",
+  i: "generic",
+  img: props => props.alt === "" ? "presentation" : "img",
+  input: props => {
+    if (props.list !== undefined) {
+      return "combobox"
+    }
+    switch (props.type) {
+      case "button":
+      case "image":
+      case "reset":
+      case "submit":
+        return "button"
+      case "checkbox":
+        return "checkbox"
+      case "number":
+        return "spinbutton"
+      case "radio":
+        return "radio"
+      case "range":
+        return "slider"
+      case "search":
+        return "searchbox"
+      default:
+        return "textbox"
+    }
+  },
+  ins: "insertion",
+  li: "listitem",
+  link: props => props.href === undefined ? "generic" : "link",
+  main: "main",
+  menu: "list",
+  meter: "meter",
+  nav: "navigation",
+  ol: "list",
+  optgroup: "group",
+  option: "option",
+  output: "status",
+  p: "paragraph",
+  pre: "generic",
+  progress: "progressbar",
+  q: "generic",
+  s: "deletion",
+  samp: "generic",
+  section: props => (
+    props["aria-label"] ?? props["aria-labelledby"] ?? props.title
+  ) === undefined ? "generic" : "region",
+  select: props => props.multiple || props.size > 1 ? "listbox" : "combobox",
+  small: "generic",
+  span: "generic",
+  strong: "strong",
+  sub: "subscript",
+  sup: "superscript",
+  table: "table",
+  tbody: "rowgroup",
+  td: "cell",
+  textarea: "textbox",
+  tfoot: "rowgroup",
+  th: props => props.scope === "row" ? "rowheader" : "columnheader",
+  thead: "rowgroup",
+  time: "time",
+  tr: "row",
+  u: "generic",
+  ul: "list",
+}
+
+/**
+ * The implicit roles that other roles' context and ownership rules refer to.
+ */
+const ImplicitRoles: Partial<Record<ElementName, AriaRole>> = {
+  li: "listitem",
+  menu: "list",
+  ol: "list",
+  optgroup: "group",
+  option: "option",
+  select: "listbox",
+  table: "table",
+  tbody: "rowgroup",
+  td: "cell",
+  tfoot: "rowgroup",
+  th: "columnheader",
+  thead: "rowgroup",
+  tr: "row",
+  ul: "list",
+}
+
+/**
+ * https://www.w3.org/TR/wai-aria-1.2/#scope
+ */
+const RequiredContextRoles: Partial<Record<AriaRole, AriaRole[]>> = {
+  cell: ["row"],
+  columnheader: ["row"],
+  gridcell: ["row"],
+  listitem: ["directory", "list"],
+  menuitem: ["group", "menu", "menubar"],
+  menuitemcheckbox: ["group", "menu", "menubar"],
+  menuitemradio: ["group", "menu", "menubar"],
+  option: ["group", "listbox"],
+  row: ["grid", "rowgroup", "table", "treegrid"],
+  rowgroup: ["grid", "table", "treegrid"],
+  rowheader: ["row"],
+  tab: ["tablist"],
+  treeitem: ["group", "tree"],
+}
+
+/**
+ * https://www.w3.org/TR/wai-aria-1.2/#mustContain
+ */
+const RequiredOwnedRoles: Partial<Record<AriaRole, AriaRole[]>> = {
+  grid: ["row", "rowgroup"],
+  list: ["listitem"],
+  listbox: ["group", "option"],
+  menu: ["group", "menuitem", "menuitemcheckbox", "menuitemradio"],
+  menubar: ["group", "menuitem", "menuitemcheckbox", "menuitemradio"],
+  row: ["cell", "columnheader", "gridcell", "rowheader"],
+  rowgroup: ["row"],
+  table: ["row", "rowgroup"],
+  tablist: ["tab"],
+  tree: ["group", "treeitem"],
+  treegrid: ["row", "rowgroup"],
+}
+
+/**
+ * https://www.w3.org/TR/wai-aria-1.2/#state_prop_def
+ */
+const AriaAttributes: Record<
+  string,
+  "id" | "ids" | "integer" | "number" | "string" | string[]
+> = {
+  "aria-activedescendant": "id",
+  "aria-atomic": ["false", "true"],
+  "aria-autocomplete": ["both", "inline", "list", "none"],
+  "aria-busy": ["false", "true"],
+  "aria-checked": ["false", "mixed", "true", "undefined"],
+  "aria-colcount": "integer",
+  "aria-colindex": "integer",
+  "aria-colspan": "integer",
+  "aria-controls": "ids",
+  "aria-current": ["date", "false", "location", "page", "step", "time", "true"],
+  "aria-describedby": "ids",
+  "aria-details": "id",
+  "aria-disabled": ["false", "true"],
+  "aria-dropeffect": ["copy", "execute", "link", "move", "none", "popup"],
+  "aria-errormessage": "id",
+  "aria-expanded": ["false", "true", "undefined"],
+  "aria-flowto": "ids",
+  "aria-grabbed": ["false", "true", "undefined"],
+  "aria-haspopup": ["dialog", "false", "grid", "listbox", "menu", "tree", "true"],
+  "aria-hidden": ["false", "true", "undefined"],
+  "aria-invalid": ["false", "grammar", "spelling", "true"],
+  "aria-keyshortcuts": "string",
+  "aria-label": "string",
+  "aria-labelledby": "ids",
+  "aria-level": "integer",
+  "aria-live": ["assertive", "off", "polite"],
+  "aria-modal": ["false", "true"],
+  "aria-multiline": ["false", "true"],
+  "aria-multiselectable": ["false", "true"],
+  "aria-orientation": ["horizontal", "undefined", "vertical"],
+  "aria-owns": "ids",
+  "aria-placeholder": "string",
+  "aria-posinset": "integer",
+  "aria-pressed": ["false", "mixed", "true", "undefined"],
+  "aria-readonly": ["false", "true"],
+  "aria-relevant": ["additions", "all", "removals", "text"],
+  "aria-required": ["false", "true"],
+  "aria-roledescription": "string",
+  "aria-rowcount": "integer",
+  "aria-rowindex": "integer",
+  "aria-rowspan": "integer",
+  "aria-selected": ["false", "true", "undefined"],
+  "aria-setsize": "integer",
+  "aria-sort": ["ascending", "descending", "none", "other"],
+  "aria-valuemax": "number",
+  "aria-valuemin": "number",
+  "aria-valuenow": "number",
+  "aria-valuetext": "string",
+}
+
+const AriaTokenListAttributes = ["aria-dropeffect", "aria-relevant"]
+
+function ariaValueDescription(attribute: string): string | undefined {
+  const type = AriaAttributes[attribute]
+  if (Array.isArray(type)) {
+    return AriaTokenListAttributes.includes(attribute)
+      ? `a list of ${type.join(", ")}`
+      : `one of ${type.join(", ")}`
+  }
+  return {
+    id: "an id",
+    ids: "a list of ids",
+    integer: "an integer",
+    number: "a number",
+    string: "a string",
+  }[type]
+}
+
+function isAriaValue(attribute: string, value: unknown): boolean {
+  const type = AriaAttributes[attribute]
+  const text = String(value).trim()
+  if (type === undefined || typeof value === "object") {
+    return false
+  } else if (Array.isArray(type)) {
+    const tokens = AriaTokenListAttributes.includes(attribute)
+      ? text.split(/\s+/)
+      : [text]
+    return tokens.every(token => type.includes(token))
+  } else if (type === "id") {
+    return /^\S+$/.test(text)
+  } else if (type === "ids") {
+    return text !== ""
+  } else if (type === "integer") {
+    return text !== "" && Number.isInteger(Number(text))
+  } else if (type === "number") {
+    return text !== "" && Number.isFinite(Number(text))
+  }
+  return true
+}
+
+/**
+ * Checks an element's `role` and `aria-*` attributes and returns the role
+ * its descendants should treat as their context. Elements without a role of
+ * their own pass their parent's through.
+ */
+function useAria(name: TagName, props: Record<string, any>): AriaOwnership {
+  const ancestry = React.useContext(AncestryContext)
+  const diagnostics = useDiagnostics()
+  const document = useDocument()
+  const position = React.useContext(PositionContext)
+  const parent = React.useContext(AriaRoleContext)
+
+  for (const [attribute, value] of Object.entries(props)) {
+    if (
+      attribute.startsWith("aria-")
+      && value !== undefined
+      && !isAriaValue(attribute, value)
+    ) {
+      violation(diagnostics, new AriaAttributeError({
+        element: name,
+        ancestry,
+        expected: ariaValueDescription(attribute),
+        actual: value,
+      }, attribute))
+    }
+  }
+
+  const allowed = AllowedRoles[name]
+  const allowedRoles = typeof allowed === "function" ? allowed(props) : allowed
+  const implicit = ElementRoles[name]
+  const implicitRole = typeof implicit === "function"
+    ? implicit(props, ancestry)
+    : implicit
+  const roles: string[] = (props.role ?? "").split(/\s+/).filter(Boolean)
+  const explicitRole = roles.find(role => (
+    AriaRoles.includes(role as AriaRole)
+  )) as AriaRole | undefined
+  for (const role of roles) {
+    if (
+      !AriaRoles.includes(role as AriaRole)
+      || (
+        role === explicitRole
+        && role !== implicitRole
+        && allowedRoles
+        && !allowedRoles.includes(role)
+      )
+    ) {
+      violation(diagnostics, new AriaRoleError({
+        element: name,
+        ancestry,
+        expected: allowedRoles ?? [...AriaRoles],
+        actual: role,
+      }))
+    }
+  }
+
+  const role = explicitRole ?? ImplicitRoles[name]
+  if (!role || ["generic", "none", "presentation"].includes(role)) {
+    return parent
+  }
+  parent?.owned.push(role)
+
+  const context = RequiredContextRoles[role]
+  if (explicitRole && context && !context.includes(parent?.role)) {
+    violation(diagnostics, new AriaContextError({
+      element: name,
+      ancestry,
+      expected: context,
+      actual: parent?.role,
+    }, role))
+  }
+
+  const ownership = { role, owned: [] }
+  const owned = RequiredOwnedRoles[role]
+  if (explicitRole && owned && document) {
+    document.ariaOwners.push({
+      position,
+      error: new AriaOwnedError({
+        element: name,
+        ancestry,
+        expected: owned,
+        actual: ownership.owned,
+      }, role),
+    })
+  }
+  return ownership
+}
+
+const withAria = (Component, name: TagName) => props => {
+  const ownership = useAria(name, props)
+  return (
+    <AriaRoleContext.Provider value={ownership}>
+      <Component {...props} />
+    </AriaRoleContext.Provider>
+  )
+}
+
+const LandmarkContainers: Partial<Record<TagName, TagName[]>> = {
+  footer: ["footer", "header"],
+  header: ["footer", "header"],
+  main: ["footer", "header", "nav"],
+}
+
+/**
+ * Landmarks that need distinct labels when a document has more than one.
+ */
+const NamedLandmarks: TagName[] = ["aside", "nav"]
+
+const withLandmark = (Component, name: TagName) => props => {
+  const ancestry = React.useContext(AncestryContext)
+  const diagnostics = useDiagnostics()
+  const document = useDocument()
+  const position = React.useContext(PositionContext)
+  const containers = LandmarkContainers[name] ?? []
+  const container = [...ancestry].reverse().find(ancestor => (
+    containers.includes(ancestor)
+  ))
+
+  if (container) {
+    violation(diagnostics, new LandmarkNestingError({
+      element: name,
+      ancestry,
+      expected: containers,
+      actual: container,
+    }))
+  }
+
+  if (document && name === "main" && !props.hidden) {
+    document.mains.push({ position, ancestry })
+  } else if (document && NamedLandmarks.includes(name)) {
+    document.landmarks.push({
+      position,
+      error: new LandmarkNameError({
+        element: name,
+        ancestry,
+        expected: "unique",
+        actual: props["aria-label"] ?? props["aria-labelledby"],
+      }),
+    })
+  }
+
+  return <Component {...props} />
+}
+
+const withInteractiveContent = (
+  Component,
+  name: TagName,
+  fallback: ElementDefinition,
+) => props => {
+  const ancestry = React.useContext(AncestryContext)
+  const diagnostics = useDiagnostics()
+  const container = React.useContext(InteractiveContext)
+  const registry = React.useContext(ElementRegistryContext)
+  const { contentCategories: categorize } = registry.get(name) ?? fallback
+  const contentCategories = categorize({ props, ancestry })
+  const interactive = contentCategories.includes("interactive")
+  // An <a> can't contain another one, even if neither has an href.
+  const nested = name === "a" && ancestry.includes("a")
+
+  if ((container && interactive) || nested) {
+    violation(diagnostics, new InteractiveContentError({
+      element: name,
+      ancestry,
+      expected: nested ? "a" : container,
+      actual: contentCategories,
+    }))
+  }
+
+  if (!interactive || InteractiveContentHosts.includes(name)) {
+    return <Component {...props} />
+  }
+
+  return (
+    <InteractiveContext.Provider value={name}>
+      <Component {...props} />
+    </InteractiveContext.Provider>
+  )
+}
+
+/**
+ * Requires a form control to have a label. Controls with an `id` could be
+ * labelled by a `<label htmlFor>` anywhere in the document, so they are
+ * checked once the rest of it has rendered.
+ */
+function withLabel<Props extends React.AriaAttributes & { id?: string }>(
+  Component: React.FC<Props>,
+  name: TagName,
+  labelable: (props: Props) => boolean = () => true,
+): React.FC<Props> {
+  return props => {
+    const ancestry = React.useContext(AncestryContext)
+    const diagnostics = useDiagnostics()
+    const document = useDocument()
+    const position = React.useContext(PositionContext)
+    const labelled = !document
+      || !labelable(props)
+      || ancestry.includes("label")
+      || props["aria-label"]
+      || props["aria-labelledby"]
+
+    if (!labelled) {
+      const error = new MissingLabelError({
+        element: name,
+        ancestry,
+        expected: "label",
+        actual: props.id,
+      })
+      if (props.id) {
+        document.unlabelled.push({ position, error })
+      } else {
+        violation(diagnostics, error)
+      }
+    }
+
+    return <Component {...props} />
+  }
+}
+
+const IdReferenceAttributes = [
+  "aria-describedby",
+  "aria-labelledby",
+  "htmlFor",
+]
+
+/**
+ * Registers an element's id, and its references to other ids, with its
+ * document. Both are checked once the document has rendered.
+ */
+function useIds(name: TagName, props: Record<string, any>): void {
+  const ancestry = React.useContext(AncestryContext)
+  const document = useDocument()
+  const position = React.useContext(PositionContext)
+  if (!document) {
+    return
+  }
+
+  if (props.id) {
+    document.ids.push({
+      position,
+      error: new DuplicateIdError({
+        element: name,
+        ancestry,
+        expected: "unique",
+        actual: props.id,
+      }),
+    })
+  }
+
+  const references: [string, string][] = []
+  for (const attribute of IdReferenceAttributes) {
+    for (const id of (props[attribute] ?? "").split(/\s+/).filter(Boolean)) {
+      references.push([attribute, id])
+    }
+  }
+  // `#top` scrolls to the top of the page when no element has that id.
+  const fragment = typeof props.href === "string" && /^#./.test(props.href)
+    ? decodeURIComponent(props.href.slice(1))
+    : undefined
+  if (fragment && fragment.toLowerCase() !== "top") {
+    references.push(["href", fragment])
+  }
+  for (const [attribute, id] of references) {
+    document.references.push({
+      position,
+      error: new DanglingReferenceError({
+        element: name,
+        ancestry,
+        expected: "id",
+        actual: id,
+      }, attribute),
+    })
+  }
+}
+
+const withIds = (Component, name: TagName) => props => {
+  useIds(name, props)
+  return <Component {...props} />
+}
+
+/**
+ * Runs the checks that need the whole document, in document order, and
+ * reports what they find along with everything reported while rendering.
+ * Without `diagnostics` the first violation is thrown.
+ */
+function reportDocument(document: DocumentState): void {
+  document.reported = true
+  const pending = [...document.violations]
+
+  const levels = new Map<HeadingScope, HeadingLevel>()
+  for (const heading of inDocumentOrder(document.headings)) {
+    const { position, scope, ancestry, level } = heading
+    const previous = levels.get(scope)
+      ?? Math.min(scope.depth + 1, 6) as HeadingLevel
+    if (Math.abs(level - previous) > 1) {
+      pending.push({
+        position,
+        error: new HeadingLevelError({
+          element: `h${level}` as ElementName,
+          ancestry,
+          expected: previous,
+          actual: level,
+        }),
+      })
+    }
+    levels.set(scope, level)
+  }
+
+  const ids = new Set<string>()
+  for (const entry of inDocumentOrder(document.ids)) {
+    if (ids.has(entry.error.actual)) {
+      pending.push(entry)
+    }
+    ids.add(entry.error.actual)
+  }
+  pending.push(...document.references.filter(({ error }) => (
+    !ids.has(error.actual)
+  )))
+  pending.push(...document.unlabelled.filter(({ error }) => (
+    !document.labelled.has(error.actual)
+  )))
+  pending.push(...document.ariaOwners.filter(({ error }) => (
+    !error.actual.some(role => error.expected.includes(role))
+  )))
+
+  if (document.requireMain && document.mains.length === 0) {
+    pending.push({
+      position: [],
+      error: new MissingMainError({
+        element: "body",
+        ancestry: ["html"],
+        expected: 1,
+        actual: 0,
+      }),
+    })
+  }
+  inDocumentOrder(document.mains).forEach(({ position, ancestry }, i) => {
+    if (i > 0) {
+      pending.push({
+        position,
+        error: new DuplicateMainError({
+          element: "main",
+          ancestry,
+          expected: 1,
+          actual: i + 1,
+        }),
+      })
+    }
+  })
+  for (const name of NamedLandmarks) {
+    const named = inDocumentOrder(document.landmarks).filter(({ error }) => (
+      error.element === name
+    ))
+    const seen = new Set<string>()
+    for (const entry of named.length > 1 ? named : []) {
+      if (entry.error.actual === undefined || seen.has(entry.error.actual)) {
+        pending.push(entry)
+      }
+      seen.add(entry.error.actual)
+    }
+  }
+
+  const errors = inDocumentOrder(pending).map(({ error }) => error)
+  if (!document.diagnostics && errors.length > 0) {
+    throw errors[0]
+  }
+  document.diagnostics?.push(...errors)
+}
+
+const ReportDocument: React.FC = () => {
+  reportDocument(React.useContext(DocumentContext))
+  return null
+}
+
+/**
+ * Defines a validated component for a built-in element or a custom element
+ * such as `<site-nav>`. The definition is added to `registry` so that other
+ * elements can look it up, and the component takes part in the same
+ * ancestry, element level, heading and language tracking as the built-ins.
+ */
+export function defineElement<Props = React.HTMLAttributes<HTMLElement>>({
+  name,
+  level = "undefined",
+  contentCategories,
+  contentModel,
+  component = props => React.createElement(name, {
+    ...props,
+    children: positioned((props as React.PropsWithChildren<Props>).children),
+  }),
+  registry = defaultElementRegistry,
+}: {
+  name: TagName,
+  level?: ElementLevel,
+  contentCategories: ContentCategorizer<Props>,
+  contentModel: ContentModel<Props>,
+  component?: (props: Props) => React.ReactElement,
+  registry?: ElementRegistry,
+}): React.FC<Props> {
+  if (name.includes("-") && !isCustomElementName(name)) {
+    throw new Error(`<${name}> is not a valid custom element name`)
+  }
+
+  const definition = {
+    level,
+    contentCategories,
+    contentModel,
+  }
+  registry.define(name, definition)
+
+  component = withAncestry(component, name, definition)
+  component = withHeadingScope(component, name, definition)
+  component = withElementLevel(component, name, definition)
+  component = withInteractiveContent(component, name, definition)
+  component = withIds(component, name)
+  component = withAria(component, name)
+  component = withLandmark(component, name)
+  component = withLanguage(component, name)
+  return component
+}
+
+export const Abbr = defineElement<
+  React.HTMLAttributes<HTMLElement>
+>({
+  name: "abbr",
+  level: "inline",
+  contentCategories: () => ["flow", "phrasing"],
+  contentModel: () => ["phrasing"],
+})
+
+export const Address = defineElement<
+  React.HTMLAttributes<HTMLElement>
+>({
+  name: "address",
+  level: "block",
+  contentCategories: () => ["flow"],
+  contentModel: () => ["flow"],
+})
+
+export const AlternateLink = withHeadHoisting<{
+  href: string
+  hreflang: string
+}>(({ href, hreflang }) => {
+  const ancestry = React.useContext(AncestryContext)
+  const diagnostics = useDiagnostics()
+  if (hreflang !== "x-default" && !isLanguageTag(hreflang)) {
+    violation(diagnostics, new InvalidLangError({
+      element: "link",
+      ancestry,
+      expected: "BCP 47",
+      actual: hreflang,
+    }))
+  }
+  return <Link rel="alternate" hrefLang={hreflang} href={href} />
+})
+
+export const Anchor = defineElement<
+  React.AnchorHTMLAttributes<HTMLAnchorElement>
+>({
+  name: "a",
+  contentCategories: ({ props }) => props.href !== undefined
+    ? ["flow", "interactive", "phrasing"]
+    : ["flow", "phrasing"],
+  contentModel: ({ parent }) => parent ?? ["flow"],
+})
+
+export const Area = defineElement<
+  VoidElementProps<React.AreaHTMLAttributes<HTMLAreaElement>>
+>({
+  name: "area",
+  level: "inline",
+  contentCategories: () => ["flow", "phrasing"],
+  contentModel: () => [],
+})
+
+export const Article = defineElement<
+  React.HTMLAttributes<HTMLElement>
+>({
+  name: "article",
+  level: "block",
+  contentCategories: () => ["flow", "sectioning"],
+  contentModel: () => ["flow"],
+})
+
+export const Aside = defineElement<
+  React.HTMLAttributes<HTMLElement>
+>({
+  name: "aside",
+  level: "block",
+  contentCategories: () => ["flow", "sectioning"],
+  contentModel: () => ["flow"],
+})
+
+export const Audio = defineElement<
+  React.AudioHTMLAttributes<HTMLAudioElement>
+>({
+  name: "audio",
+  level: "inline",
+  contentCategories: ({ props }) => props.controls
+    ? ["embedded", "flow", "interactive", "phrasing"]
+    : ["embedded", "flow", "phrasing"],
+  contentModel: () => ["source", "track"],
+})
+
+export const B = defineElement<
+  React.HTMLAttributes<HTMLElement>
+>({
+  name: "b",
+  level: "inline",
+  contentCategories: () => ["flow", "phrasing"],
+  contentModel: () => ["phrasing"],
+})
+
+export const Base = defineElement<
+  VoidElementProps<React.BaseHTMLAttributes<HTMLBaseElement>>
+>({
+  name: "base",
+  contentCategories: () => ["metadata"],
+  contentModel: () => [],
+})
+
+export const Bdi = defineElement<
+  React.HTMLAttributes<HTMLElement>
+>({
+  name: "bdi",
+  level: "inline",
+  contentCategories: () => ["flow", "phrasing"],
+  contentModel: () => ["phrasing"],
+})
+
+export const Bdo = defineElement<
+  React.HTMLAttributes<HTMLElement>
+>({
+  name: "bdo",
+  level: "inline",
+  contentCategories: () => ["flow", "phrasing"],
+  contentModel: () => ["phrasing"],
+})
+
+export const Blockquote = defineElement<
+  React.BlockquoteHTMLAttributes<HTMLQuoteElement>
+>({
+  name: "blockquote",
+  level: "block",
+  contentCategories: () => ["flow"],
+  contentModel: () => ["flow"],
+})
+
+export const Body = defineElement<
+  React.HTMLAttributes<HTMLBodyElement>
+>({
+  name: "body",
+  level: "block",
+  contentCategories: () => [],
+  contentModel: () => ["flow"],
+})
+
+export const Br = defineElement<
+  VoidElementProps<React.HTMLAttributes<HTMLBRElement>>
+>({
+  name: "br",
+  level: "inline",
+  contentCategories: () => ["flow", "phrasing"],
+  contentModel: () => [],
+})
+
+export const Button = defineElement<
+  React.ButtonHTMLAttributes<HTMLButtonElement>
+>({
+  name: "button",
+  level: "inline",
+  contentCategories: () => [
+    "flow",
+    "form-associated",
+    "interactive",
+    "phrasing",
+  ],
+  contentModel: () => ["phrasing"],
+})
+
+export const CanonicalLink = withHeadHoisting<{
+  href: string
+}>(({ href }) => <Link rel="canonical" href={href} />)
+
+export const Canvas = defineElement<
+  React.CanvasHTMLAttributes<HTMLCanvasElement>
+>({
+  name: "canvas",
+  level: "inline",
+  contentCategories: () => ["embedded", "flow", "phrasing"],
+  contentModel: () => ["flow"],
+})
+
+export const Caption = defineElement<
+  React.HTMLAttributes<HTMLTableCaptionElement>
+>({
+  name: "caption",
+  contentCategories: () => [],
+  contentModel: () => ["flow"],
+})
+
+export const Cite = defineElement<
+  React.HTMLAttributes<HTMLElement>
+>({
+  name: "cite",
+  level: "inline",
+  contentCategories: () => ["flow", "phrasing"],
+  contentModel: () => ["phrasing"],
+})
+
+export const Code = defineElement<
+  React.HTMLAttributes<HTMLElement>
+>({
+  name: "code",
+  level: "inline",
+  contentCategories: () => ["flow", "phrasing"],
+  contentModel: () => ["phrasing"],
+})
+
+export const Col = defineElement<
+  VoidElementProps<React.ColHTMLAttributes<HTMLTableColElement>>
+>({
+  name: "col",
+  contentCategories: () => [],
+  contentModel: () => [],
+})
+
+export const ColGroup = defineElement<
+  React.ColgroupHTMLAttributes<HTMLTableColElement>
+>({
+  name: "colgroup",
+  contentCategories: () => [],
+  contentModel: () => ["col"],
+})
+
+export const Data = defineElement<
+  React.DataHTMLAttributes<HTMLDataElement>
+>({
+  name: "data",
+  level: "inline",
+  contentCategories: () => ["flow", "phrasing"],
+  contentModel: () => ["phrasing"],
+})
+
+export const DataList = defineElement<
+  React.HTMLAttributes<HTMLDataListElement>
+>({
+  name: "datalist",
+  level: "inline",
+  contentCategories: () => ["flow", "phrasing"],
+  contentModel: () => ["option", "phrasing"],
+})
+
+export const Del = defineElement<
+  React.DelHTMLAttributes<HTMLModElement>
+>({
+  name: "del",
+  level: "inline",
+  contentCategories: () => ["flow", "phrasing"],
+  contentModel: () => ["flow"],
+})
+
+export const DescriptionDetails = defineElement<
+  React.HTMLAttributes<HTMLElement>
+>({
+  name: "dd",
+  level: "block",
+  contentCategories: () => ["flow"],
+  contentModel: () => ["flow"],
+})
+
+export const DescriptionList = defineElement<
+  React.HTMLAttributes<HTMLElement> & {
+    items?: [
+      React.ReactNode | string,
+      React.ReactNode | string,
+    ][]
+  }
+>({
+  name: "dl",
+  level: "block",
+  contentCategories: () => ["flow"],
+  contentModel: () => ["dt", "dd", "div"],
+  component: ({ items, children, ...dl }) => (
+    <dl {...dl}>
+      {positioned(items ? items.map((item, i) => (
+        <React.Fragment key={i}>
+          <DescriptionTerm>
+            {item[0]}
+          </DescriptionTerm>
+          <DescriptionDetails>
+            {item[1]}
+          </DescriptionDetails>
+        </React.Fragment>
+      )) : children)}
+    </dl>
+  )
+})
+
+export const DescriptionTerm = defineElement<
+  React.HTMLAttributes<HTMLElement>
+>({
+  name: "dt",
+  level: "block",
+  contentCategories: () => ["flow"],
+  contentModel: () => ["flow"],
+})
+
+export const Details = defineElement<
+  React.DetailsHTMLAttributes<HTMLDetailsElement>
+>({
+  name: "details",
+  level: "block",
+  contentCategories: () => ["flow", "interactive"],
+  contentModel: () => ["summary", "flow"],
+})
+
+export const Dfn = defineElement<
+  React.HTMLAttributes<HTMLElement>
+>({
+  name: "dfn",
+  level: "inline",
+  contentCategories: () => ["flow", "phrasing"],
+  contentModel: () => ["phrasing"],
+})
+
+export const Dialog = defineElement<
+  React.DialogHTMLAttributes<HTMLDialogElement>
+>({
+  name: "dialog",
+  level: "block",
+  contentCategories: () => ["flow"],
+  contentModel: () => ["flow"],
+})
+
+export const Div = defineElement<
+  React.HTMLAttributes<HTMLDivElement>
+>({
+  name: "div",
+  level: "block",
+  contentCategories: () => ["flow"],
+  contentModel: ({ ancestry }) => ancestry[ancestry.length - 1] === "dl"
+    ? ["dt", "dd"]
+    : ["flow"],
+})
+
+/**
+ * Checks the rules that need the whole document once it has rendered. With
+ * `renderToString()` or `renderToPipeableStream()` that happens when its own
+ * content has rendered, so anything inside a Suspense boundary that resolves
+ * later goes unchecked. Use `renderDocumentAsync()` for those documents.
+ */
+export const Document: React.FC<React.HTMLAttributes<HTMLHtmlElement> & {
+  description: string
+  diagnostics?: Diagnostic[]
+  lang: string
+  /** Requires the document to have a visible `<main>`. */
+  requireMain?: boolean
+  title: string
+} & DocumentMetadata> = props => {
+  const {
+    title,
+    description,
+    alternates,
+    diagnostics: diagnosticsProp,
+    icons,
+    jsonLd,
+    openGraph,
+    requireMain,
+    robots,
+    themeColor,
+    twitter,
+    ...html
+  } = props
+  const children: any = props.children
+  const emptyBody = children === undefined
+  const headAndBody = !emptyBody
+    && children.length === 2
+    && children[0].type === Head
+    && children[1].type === Body 
+  const headOnly = !headAndBody
+    && children?.type === Head
+  const bodyOnly = !headAndBody
+    && children?.type === Body
+  const registry = React.useContext(ElementRegistryContext)
+  const render = React.useContext(RenderContext)
+  const position = React.useContext(PositionContext)
+  const [document] = React.useState(() => (
+    createDocumentState(diagnosticsProp ?? render?.diagnostics, requireMain)
+  ))
+  if (render && !render.documents.includes(document)) {
+    render.documents.push(document)
+  }
+  const diagnostics: Reporter | undefined = document.diagnostics
+    && (error => document.violations.push({ position, error }))
+
+  if (!props.lang) {
+    violation(diagnostics, new MissingLangError({
+      element: "html",
+      ancestry: [],
+      expected: "string",
+      actual: props.lang,
+    }))
+  } else if (!isLanguageTag(props.lang)) {
+    violation(diagnostics, new InvalidLangError({
+      element: "html",
+      ancestry: [],
+      expected: "BCP 47",
+      actual: props.lang,
+    }))
+  }
+
+  const dir = html.dir
+    ?? (languageDirection(props.lang) === "rtl" ? "rtl" : undefined)
+
+  return (
+    <AncestryContext.Provider value={["html"]}>
+    <ContentModelContext.Provider value={registry.get("html").contentModel({
+      props: html,
+      ancestry: [],
+    })}>
+    <DocumentContext.Provider value={document}>
+    <HeadingScopeContext.Provider value={{ depth: 0, element: "body" }}>
+    <LanguageContext.Provider value={props.lang}>
+      <TitleContext.Provider value={title}>
+      <DescriptionContext.Provider value={description}>
+      <MetadataContext.Provider value={{
+        alternates,
+        icons,
+        jsonLd,
+        openGraph,
+        robots,
+        themeColor,
+        twitter,
+      }}>
+        <html {...html} dir={dir}>
+          {positioned(emptyBody ? (
+            <>
+              <Head />
+              <Body>{" "}</Body>
+            </>
+          ) : headAndBody ? (
+            <>{children}</>
+          ) : headOnly ? (
+            <>
+              {props.children}
+              <Body>{" "}</Body>
+            </>
+          ) : bodyOnly ? (
+            <>
+              <Head />
+              {props.children}
+            </>
+          ) : (
+            <>
+              <Head />
+              <Body>{props.children}</Body>
+            </>
+          ))}
+          {!render && <ReportDocument />}
+        </html>
+      </MetadataContext.Provider>
+      </DescriptionContext.Provider>
+      </TitleContext.Provider>
+    </LanguageContext.Provider>
+    </HeadingScopeContext.Provider>
+    </DocumentContext.Provider>
+    </ContentModelContext.Provider>
+    </AncestryContext.Provider>
+  )
+}
+
+export const Em = defineElement<
+  React.HTMLAttributes<HTMLElement>
+>({
+  name: "em",
+  level: "inline",
+  contentCategories: () => ["flow", "phrasing"],
+  contentModel: () => ["phrasing"],
+})
+
+export const Embed = defineElement<
+  VoidElementProps<React.EmbedHTMLAttributes<HTMLEmbedElement>>
+>({
+  name: "embed",
+  level: "inline",
+  contentCategories: () => [
+    "embedded",
+    "flow",
+    "interactive",
+    "phrasing",
+  ],
+  contentModel: () => [],
+})
+
+export const EmbeddedObject = defineElement<
+  React.ObjectHTMLAttributes<HTMLObjectElement>
+>({
+  name: "object",
+  level: "inline",
+  contentCategories: () => [
+    "embedded",
+    "flow",
+    "form-associated",
+    "phrasing",
+  ],
+  contentModel: () => ["flow"],
+})
+
+export const Fieldset = defineElement<
+  React.FieldsetHTMLAttributes<HTMLFieldSetElement>
+>({
+  name: "fieldset",
+  level: "block",
+  contentCategories: () => ["flow", "form-associated"],
+  contentModel: () => ["legend", "flow"],
+})
+
+export const Figcaption = defineElement<
+  React.HTMLAttributes<HTMLElement>
+>({
+  name: "figcaption",
+  level: "block",
+  contentCategories: () => [],
+  contentModel: () => ["flow"],
+})
+
+export const Figure = defineElement<
+  React.HTMLAttributes<HTMLElement>
+>({
+  name: "figure",
+  level: "block",
+  contentCategories: () => ["flow"],
+  contentModel: () => ["figcaption", "flow"],
+  component: props => {
+    const ancestry = React.useContext(AncestryContext)
+    const diagnostics = useDiagnostics()
+    const children = flattenChildren(props.children).filter(child => (
+      typeof child !== "string" || child.trim() !== ""
+    ))
+    children.forEach((child, i) => {
+      if (
+        React.isValidElement(child)
+        && (child.type === Figcaption || child.type === "figcaption")
+        && i !== 0
+        && i !== children.length - 1
+      ) {
+        violation(diagnostics, new FigcaptionPositionError({
+          element: "figcaption",
+          ancestry,
+          expected: ["first", "last"],
+          actual: i,
+        }))
+      }
+    })
+    return <figure {...props}>{positioned(props.children)}</figure>
+  },
+})
+
+export const Form = defineElement<
+  React.FormHTMLAttributes<HTMLFormElement>
+>({
+  name: "form",
+  level: "block",
+  contentCategories: () => ["flow"],
+  contentModel: () => ["flow"],
+})
+
+export const H1 = defineElement<
+  React.HTMLAttributes<HTMLHeadingElement>
+>({
+  name: "h1",
+  level: "block",
+  contentCategories: () => ["flow", "heading"],
+  contentModel: () => ["phrasing"],
+  component: props => <Heading {...props} level={1} />,
+})
+
+export const H2 = defineElement<
+  React.HTMLAttributes<HTMLHeadingElement>
+>({
+  name: "h2",
+  level: "block",
+  contentCategories: () => ["flow", "heading"],
+  contentModel: () => ["phrasing"],
+  component: props => <Heading {...props} level={2} />,
+})
+
+export const H3 = defineElement<
+  React.HTMLAttributes<HTMLHeadingElement>
+>({
+  name: "h3",
+  level: "block",
+  contentCategories: () => ["flow", "heading"],
+  contentModel: () => ["phrasing"],
+  component: props => <Heading {...props} level={3} />,
+})
+
+export const H4 = defineElement<
+  React.HTMLAttributes<HTMLHeadingElement>
+>({
+  name: "h4",
+  level: "block",
+  contentCategories: () => ["flow", "heading"],
+  contentModel: () => ["phrasing"],
+  component: props => <Heading {...props} level={4} />,
+})
+
+export const H5 = defineElement<
+  React.HTMLAttributes<HTMLHeadingElement>
+>({
+  name: "h5",
+  level: "block",
+  contentCategories: () => ["flow", "heading"],
+  contentModel: () => ["phrasing"],
+  component: props => <Heading {...props} level={5} />,
+})
+
+export const H6 = defineElement<
+  React.HTMLAttributes<HTMLHeadingElement>
+>({
+  name: "h6",
+  level: "block",
+  contentCategories: () => ["flow", "heading"],
+  contentModel: () => ["phrasing"],
+  component: props => <Heading {...props} level={6} />,
+})
+
+export const Head = defineElement<React.HTMLAttributes<HTMLHeadElement>>({
+  name: "head",
+  level: "undefined",
+  contentCategories: () => [],
+  contentModel: () => ["metadata"],
+  component: props => {
+    const ancestry = React.useContext(AncestryContext)
+    const diagnostics = useDiagnostics()
+    const title = React.useContext(TitleContext)
+    const language = React.useContext(LanguageContext)
+    const metadata = React.useContext(MetadataContext)
+    const hoisting = React.useContext(HeadHoistingContext)
+
+    const alternates = Object.entries(metadata.alternates ?? {})
+    if (alternates.length > 0 && !alternates.some(([hreflang]) => (
+      sameLanguage(hreflang, language)
+    ))) {
+      violation(diagnostics, new MissingAlternateError({
+        element: "link",
+        ancestry,
+        expected: language,
+        actual: alternates.map(([hreflang]) => hreflang),
+      }))
+    }
+
+    const values = new Map<string, string>()
+    const children = flattenChildren([
+      props.children,
+      hoisting?.hoisted,
+    ]).filter(child => {
+      const key = metadataKey(child)
+      if (!key) {
+        return true
+      }
+
+      const value = metadataValue(child as React.ReactElement)
+      if (!values.has(key)) {
+        values.set(key, value)
+        return true
+      }
+
+      if (values.get(key) !== value) {
+        violation(diagnostics, new MetadataConflictError({
+          element: metadataElement(key),
+          ancestry,
+          expected: values.get(key),
+          actual: value,
+        }, key))
+      }
+      return false
+    })
+    const overridden = new Set(values.keys())
+
+    return (
+      <head {...props}>
+        {!overridden.has("charset") && <MetaCharset />}
+        {!overridden.has("name:viewport") && <MetaViewport />}
+        {!overridden.has("name:description") && <MetaDescription />}
+        {!overridden.has("title") && <title>{title}</title>}
+        {metadata.themeColor && !overridden.has("name:theme-color") && (
+          <MetaThemeColor />
+        )}
+        {metadata.robots && !overridden.has("name:robots") && <MetaRobots />}
+        {metadata.icons?.map(icon => (
+          <IconLink key={icon.href} {...icon} />
+        ))}
+        {alternates.filter(([hreflang]) => (
+          !overridden.has(`alternate:${hreflang.toLowerCase()}`)
+        )).map(([hreflang, href]) => (
+          <AlternateLink key={hreflang} hreflang={hreflang} href={href} />
+        ))}
+        <OverriddenMetadataContext.Provider value={overridden}>
+          {metadata.openGraph && <MetaOpenGraph />}
+          {metadata.twitter && <MetaTwitterCard />}
+        </OverriddenMetadataContext.Provider>
+        {metadata.jsonLd && <JsonLdScript />}
+        {positioned(children)}
+      </head>
+    )
+  },
+})
+
+export const Header = defineElement<
+  React.HTMLAttributes<HTMLElement>
+>({
+  name: "header",
+  level: "block",
+  contentCategories: () => ["flow"],
+  contentModel: () => ["flow"],
+})
+
+export const Heading: React.FC<React.HTMLAttributes<HTMLHeadingElement> & {
+  level?: HeadingLevel
+}> = withLanguage(props => {
+  const ancestry = React.useContext(AncestryContext)
+  const diagnostics = useDiagnostics()
+  const document = useDocument()
+  const outline = React.useContext(OutlineContext)
+  const resolvedHeadings = React.useContext(ResolvedHeadingsContext)
+  const position = React.useContext(PositionContext)
+  const scope = React.useContext(HeadingScopeContext)
+
+  const {
+    level: newLevel,
+    ...heading
+  } = props
+
+  // Unlevelled headings continue at the level of the previous heading in
+  // their scope. If that one hasn't rendered yet, the level is corrected by
+  // the second pass of renderDocument().
+  const resolved = resolvedHeadings?.get(`${position}`)?.shift()
+  const previous = inDocumentOrder(document?.headings.filter(other => (
+    other.scope === scope && comparePositions(other.position, position) <= 0
+  )) ?? []).pop()
+  const level = newLevel
+    || resolved?.level
+    || previous?.level
+    || Math.min(scope.depth + 1, 6) as HeadingLevel
+  document?.headings.push({ position, scope, ancestry, level })
+
+  if (props.lang && !isLanguageTag(props.lang)) {
+    violation(diagnostics, new InvalidLangError({
+      element: `h${level}` as ElementName,
+      ancestry,
+      expected: "BCP 47",
+      actual: props.lang,
+    }))
+  }
+
+  const text = textContent(props.children)
+  const id = props.id ?? resolved?.id
+  useIds(`h${level}` as ElementName, { ...heading, id })
+  useAria(`h${level}` as ElementName, heading)
+  outline?.push({
+    position,
+    scope,
+    requested: newLevel,
+    item: {
+      level,
+      text,
+      id,
+      section: scope.element,
+    },
+  })
+
+  const Element = `h${level}`
+  return <Element {...heading} id={id} />
+})
+
+export const Footer = defineElement<
+  React.HTMLAttributes<HTMLElement>
+>({
+  name: "footer",
+  level: "block",
+  contentCategories: () => ["flow"],
+  contentModel: () => ["flow"],
+})
+
+export const HGroup = defineElement<
+  React.HTMLAttributes<HTMLElement>
+>({
+  name: "hgroup",
+  level: "block",
+  contentCategories: () => ["flow", "heading"],
+  contentModel: () => ["p", "h1", "h2", "h3", "h4", "h5", "h6"],
+})
+
+export const Hr = defineElement<
+  VoidElementProps<React.HTMLAttributes<HTMLHRElement>>
+>({
+  name: "hr",
+  level: "block",
+  contentCategories: () => ["flow"],
+  contentModel: () => [],
+})
+
+export const I = defineElement<
+  React.HTMLAttributes<HTMLElement>
+>({
+  name: "i",
+  level: "inline",
+  contentCategories: () => ["flow", "phrasing"],
+  contentModel: () => ["phrasing"],
+})
+
+export const IconLink: React.FC<Icon> = ({
+  href,
+  rel = "icon",
+  sizes,
+  type,
+}) => <Link rel={rel} href={href} sizes={sizes} type={type} />
+
+export const IFrame = defineElement<
+  React.IframeHTMLAttributes<HTMLIFrameElement>
+>({
+  name: "iframe",
+  level: "inline",
+  contentCategories: () => [
+    "embedded",
+    "flow",
+    "interactive",
+    "phrasing",
+  ],
+  contentModel: () => [],
+})
+
+export const ImageMap = defineElement<
+  React.MapHTMLAttributes<HTMLMapElement>
+>({
+  name: "map",
+  level: "inline",
+  contentCategories: () => ["flow", "phrasing"],
+  contentModel: () => ["area", "flow"],
+})
+
+export const Img = defineElement<
+  VoidElementProps<React.ImgHTMLAttributes<HTMLImageElement>> & {
+    alt: string
+  }
+>({
+  name: "img",
+  level: "inline",
+  contentCategories: ({ props }) => props.useMap
+    ? ["embedded", "flow", "interactive", "phrasing"]
+    : ["embedded", "flow", "phrasing"],
+  contentModel: () => [],
+  component: props => {
+    const ancestry = React.useContext(AncestryContext)
+    const diagnostics = useDiagnostics()
+    if (props.alt === undefined) {
+      violation(diagnostics, new MissingAltError({
+        element: "img",
+        ancestry: ancestry.slice(0, -1),
+        expected: "string",
+        actual: undefined,
+      }))
+    }
+    validateDimensions(diagnostics, ancestry, props)
+    return <img {...props} />
+  },
+})
+
+export const Input = withLabel(defineElement<
+  VoidElementProps<React.InputHTMLAttributes<HTMLInputElement>>
+>({
+  name: "input",
+  level: "inline",
+  contentCategories: ({ props }) => props.type === "hidden"
+    ? ["flow", "form-associated", "phrasing"]
+    : ["flow", "form-associated", "interactive", "phrasing"],
+  contentModel: () => [],
+}), "input", props => ![
+  "button",
+  "hidden",
+  "image",
+  "reset",
+  "submit",
+].includes(props.type))
+
+export const Ins = defineElement<
+  React.InsHTMLAttributes<HTMLModElement>
+>({
+  name: "ins",
+  level: "inline",
+  contentCategories: () => ["flow", "phrasing"],
+  contentModel: () => ["flow"],
+})
+
+/**
+ * https://developers.google.com/search/docs/advanced/structured-data/intro-structured-data
+ */
+export const JsonLdScript: React.FC<{
+  data?: object | object[]
+}> = ({ data = React.useContext(MetadataContext).jsonLd }) => data ? (
+  <Script
+    type="application/ld+json"
+    dangerouslySetInnerHTML={{
+      __html: JSON.stringify(data).replace(/</g, "\\u003c"),
+    }}
+  />
+) : null
+
+export const Kbd = defineElement<
+  React.HTMLAttributes<HTMLElement>
+>({
+  name: "kbd",
+  level: "inline",
+  contentCategories: () => ["flow", "phrasing"],
+  contentModel: () => ["phrasing"],
+})
+
+export const Label = defineElement<
+  React.LabelHTMLAttributes<HTMLLabelElement>
+>({
+  name: "label",
+  level: "inline",
+  contentCategories: () => [
+    "flow",
+    "form-associated",
+    "interactive",
+    "phrasing",
+  ],
+  contentModel: () => ["phrasing"],
+  component: props => {
+    const document = useDocument()
+    if (props.htmlFor) {
+      document?.labelled.add(props.htmlFor)
+    }
+    return <label {...props}>{positioned(props.children)}</label>
+  },
+})
+
+export const Legend = defineElement<
+  React.HTMLAttributes<HTMLLegendElement>
+>({
+  name: "legend",
+  contentCategories: () => [],
+  contentModel: () => ["phrasing", "heading"],
+})
+
+export const Li = defineElement<
+  React.LiHTMLAttributes<HTMLLIElement>
+>({
+  name: "li",
+  level: "block",
+  contentCategories: () => [],
+  contentModel: () => ["flow"],
+})
+
+export const Link = defineElement<
+  VoidElementProps<React.LinkHTMLAttributes<HTMLLinkElement>>
+>({
+  name: "link",
+  contentCategories: () => ["metadata"],
+  contentModel: () => [],
+})
+
+export const Main = defineElement<
+  React.HTMLAttributes<HTMLElement>
+>({
+  name: "main",
+  level: "block",
+  contentCategories: () => ["flow"],
+  contentModel: () => ["flow"],
+})
+
+export const Mark = defineElement<
+  React.HTMLAttributes<HTMLElement>
+>({
+  name: "mark",
+  level: "inline",
+  contentCategories: () => ["flow", "phrasing"],
+  contentModel: () => ["phrasing"],
+})
+
+export const Menu = defineElement<
+  React.MenuHTMLAttributes<HTMLMenuElement>
+>({
+  name: "menu",
+  contentCategories: () => ["flow"],
+  contentModel: () => ["li"],
+})
+
+export const Meta = withHeadHoisting(defineElement<
+  VoidElementProps<React.MetaHTMLAttributes<HTMLMetaElement>>
+>({
+  name: "meta",
+  contentCategories: ({ props }) => props.itemProp
+    ? ["flow", "metadata", "phrasing"]
+    : ["metadata"],
+  contentModel: () => [],
+}), props => !props.itemProp)
+
+export const MetaCharset: React.FC = () => (
+  <Meta charSet="utf-8" />
+)
+
+export const MetaDescription: React.FC<{
+  description?: string
+}> = ({ description = React.useContext(DescriptionContext) }) => (
+  <Meta
+    name="description" 
+    content={description}
+  />
+)
+
+const OpenGraphProperties: [keyof OpenGraph, string][] = [
+  ["type", "og:type"],
+  ["title", "og:title"],
+  ["description", "og:description"],
+  ["url", "og:url"],
+  ["image", "og:image"],
+  ["imageAlt", "og:image:alt"],
+  ["siteName", "og:site_name"],
+  ["locale", "og:locale"],
+]
+
+export const MetaOpenGraph: React.FC<OpenGraph> = props => {
+  const title = React.useContext(TitleContext)
+  const description = React.useContext(DescriptionContext)
+  const { openGraph } = React.useContext(MetadataContext)
+  const overridden = React.useContext(OverriddenMetadataContext)
+  const og = { title, description, ...openGraph, ...props }
+  return (
+    <>
+      {OpenGraphProperties.filter(([key, property]) => (
+        og[key] && !overridden.has(`property:${property}`)
+      )).map(([key, property]) => (
+        <Meta key={property} property={property} content={og[key]} />
+      ))}
+    </>
+  )
+}
+
+export const MetaRobots: React.FC<{
+  directives?: RobotsDirective[]
+}> = ({ directives = React.useContext(MetadataContext).robots }) => (
+  directives ? (
+    <Meta
+      name="robots"
+      content={directives.join(", ")}
+    />
+  ) : null
+)
+
+export const MetaThemeColor: React.FC<{
+  color?: string
+}> = ({ color = React.useContext(MetadataContext).themeColor }) => (
+  color ? (
+    <Meta
+      name="theme-color"
+      content={color}
+    />
+  ) : null
+)
+
+const TwitterCardProperties: [keyof TwitterCard, string][] = [
+  ["card", "twitter:card"],
+  ["site", "twitter:site"],
+  ["creator", "twitter:creator"],
+  ["title", "twitter:title"],
+  ["description", "twitter:description"],
+  ["image", "twitter:image"],
+  ["imageAlt", "twitter:image:alt"],
+]
+
+export const MetaTwitterCard: React.FC<Partial<TwitterCard>> = props => {
+  const { twitter } = React.useContext(MetadataContext)
+  const overridden = React.useContext(OverriddenMetadataContext)
+  const card = { ...twitter, ...props }
+  return (
+    <>
+      {TwitterCardProperties.filter(([key, name]) => (
+        card[key] && !overridden.has(`name:${name}`)
+      )).map(([key, name]) => (
+        <Meta key={name} name={name} content={card[key]} />
+      ))}
+    </>
+  )
+}
+
+export const MetaViewport: React.FC<{
+  initialScale?: number
+  width?: number | "device-width"
+}> = ({ initialScale = 1, width = "device-width" }) => (
+  <Meta
+    name="viewport" 
+    content={`width=${width}, initial-scale=${initialScale}`}
+  />
+)
+
+export const Meter = defineElement<
+  React.MeterHTMLAttributes<HTMLMeterElement>
+>({
+  name: "meter",
+  level: "inline",
+  contentCategories: () => ["flow", "phrasing"],
+  contentModel: () => ["phrasing"],
+})
+
+export const Nav = defineElement<
+  React.HTMLAttributes<HTMLElement>
 >({
-  name: "dl",
+  name: "nav",
   level: "block",
-  contentCategories: () => ["flow"],
-  component: ({ items, children, ...dl }) => (
-    <dl {...dl}>
-      {items ? items.map((item, i) => (
-        <React.Fragment key={i}>
-          <DescriptionTerm>
-            {item[0]}
-          </DescriptionTerm>
-          <DescriptionDetails>
-            {item[1]}
-          </DescriptionDetails>
-        </React.Fragment>
-      )) : children}
-    </dl>
-  )
+  contentCategories: () => ["flow", "sectioning"],
+  contentModel: () => ["flow"],
 })
 
-export const DescriptionTerm = element<
+export const NoScript = defineElement<
   React.HTMLAttributes<HTMLElement>
 >({
-  name: "dt",
+  name: "noscript",
+  level: "inline",
+  contentCategories: () => ["flow", "metadata", "phrasing"],
+  contentModel: ({ ancestry }) => ancestry.includes("head")
+    ? ["metadata"]
+    : ["flow"],
+})
+
+export const Ol = defineElement<
+  React.OlHTMLAttributes<HTMLOListElement>
+>({
+  name: "ol",
   level: "block",
   contentCategories: () => ["flow"],
+  contentModel: () => ["li", "script", "template"],
 })
 
-export const Div = element<
-  React.HTMLAttributes<HTMLDivElement>
+export const OptGroup = defineElement<
+  React.OptgroupHTMLAttributes<HTMLOptGroupElement>
 >({
-  name: "div",
+  name: "optgroup",
+  contentCategories: () => [],
+  contentModel: () => ["option"],
+})
+
+export const Option = defineElement<
+  React.OptionHTMLAttributes<HTMLOptionElement>
+>({
+  name: "option",
+  contentCategories: () => [],
+  contentModel: () => [],
+})
+
+export const Output = defineElement<
+  React.OutputHTMLAttributes<HTMLOutputElement>
+>({
+  name: "output",
+  level: "inline",
+  contentCategories: () => ["flow", "form-associated", "phrasing"],
+  contentModel: () => ["phrasing"],
+})
+
+export const P = defineElement<
+  React.HTMLAttributes<HTMLParagraphElement>
+>({
+  name: "p",
   level: "block",
   contentCategories: () => ["flow"],
+  contentModel: () => ["phrasing"],
 })
 
-export const Document: React.FC<React.HTMLAttributes<HTMLHtmlElement> & {
-  description: string
-  lang: string
-  title: string
-}> = props => {
-  const { title, description,  ...html } = props
-  const children: any = props.children
-  const emptyBody = children === undefined
-  const headAndBody = !emptyBody
-    && children.length === 2
-    && children[0].type === Head
-    && children[1].type === Body 
-  const headOnly = !headAndBody
-    && children?.type === Head
-  const bodyOnly = !headAndBody
-    && children?.type === Body
-  const elementLevelRef = React.useRef("block" as ElementLevel)
-  const headingLevelRef = React.useRef(1 as HeadingLevel)
-  const langRef = React.useRef(props.lang)
-  return (
-    <AncestryContext.Provider value={["html"]}>
-    <HeadingLevelContext.Provider value={headingLevelRef}>
-    <LanguageContext.Provider value={langRef}>
-      <TitleContext.Provider value={title}>
-      <DescriptionContext.Provider value={description}>
-        <html {...html}>
-          {emptyBody ? (
-            <>
-              <Head />
-              <Body>{" "}</Body>
-            </>
-          ) : headAndBody ? (
-            <>{children}</>
-          ) : headOnly ? (
-            <>
-              {props.children}
-              <Body>{" "}</Body>
-            </>
-          ) : bodyOnly ? (
-            <>
-              <Head />
-              {props.children}
-            </>
-          ) : (
-            <>
-              <Head />
-              <Body>{props.children}</Body>
-            </>
-          )}
-        </html>
-      </DescriptionContext.Provider>
-      </TitleContext.Provider>
-    </LanguageContext.Provider>
-    </HeadingLevelContext.Provider>
-    </AncestryContext.Provider>
-  )
+export const Picture = defineElement<
+  React.HTMLAttributes<HTMLPictureElement>
+>({
+  name: "picture",
+  level: "inline",
+  contentCategories: () => ["embedded", "flow", "phrasing"],
+  contentModel: () => ["source", "img"],
+})
+
+export const Pre = defineElement<
+  React.HTMLAttributes<HTMLPreElement>
+>({
+  name: "pre",
+  level: "block",
+  contentCategories: () => ["flow"],
+  contentModel: () => ["phrasing"],
+})
+
+export const Progress = defineElement<
+  React.ProgressHTMLAttributes<HTMLProgressElement>
+>({
+  name: "progress",
+  level: "inline",
+  contentCategories: () => ["flow", "phrasing"],
+  contentModel: () => ["phrasing"],
+})
+
+export const Q = defineElement<
+  React.QuoteHTMLAttributes<HTMLQuoteElement>
+>({
+  name: "q",
+  level: "inline",
+  contentCategories: () => ["flow", "phrasing"],
+  contentModel: () => ["phrasing"],
+})
+
+export const Rp = defineElement<
+  React.HTMLAttributes<HTMLElement>
+>({
+  name: "rp",
+  contentCategories: () => [],
+  contentModel: () => [],
+})
+
+export const Rt = defineElement<
+  React.HTMLAttributes<HTMLElement>
+>({
+  name: "rt",
+  contentCategories: () => [],
+  contentModel: () => ["phrasing"],
+})
+
+export const Ruby = defineElement<
+  React.HTMLAttributes<HTMLElement>
+>({
+  name: "ruby",
+  level: "inline",
+  contentCategories: () => ["flow", "phrasing"],
+  contentModel: () => ["phrasing", "rp", "rt"],
+})
+
+export const S = defineElement<
+  React.HTMLAttributes<HTMLElement>
+>({
+  name: "s",
+  level: "inline",
+  contentCategories: () => ["flow", "phrasing"],
+  contentModel: () => ["phrasing"],
+})
+
+export const Samp = defineElement<
+  React.HTMLAttributes<HTMLElement>
+>({
+  name: "samp",
+  level: "inline",
+  contentCategories: () => ["flow", "phrasing"],
+  contentModel: () => ["phrasing"],
+})
+
+export const Script = defineElement<
+  React.ScriptHTMLAttributes<HTMLScriptElement>
+>({
+  name: "script",
+  level: "inline",
+  contentCategories: () => ["flow", "metadata", "phrasing"],
+  contentModel: () => [],
+})
+
+export const Section = defineElement<
+  React.HTMLAttributes<HTMLElement>
+>({
+  name: "section",
+  level: "block",
+  contentCategories: () => ["flow", "sectioning"],
+  contentModel: () => ["flow"],
+})
+
+export const Select = withLabel(defineElement<
+  React.SelectHTMLAttributes<HTMLSelectElement>
+>({
+  name: "select",
+  level: "inline",
+  contentCategories: () => [
+    "flow",
+    "form-associated",
+    "interactive",
+    "phrasing",
+  ],
+  contentModel: () => ["option", "optgroup"],
+}), "select")
+
+export const Slot = defineElement<
+  React.SlotHTMLAttributes<HTMLSlotElement>
+>({
+  name: "slot",
+  level: "inline",
+  contentCategories: () => ["flow", "phrasing"],
+  contentModel: () => ["flow"],
+})
+
+export const Small = defineElement<
+  React.HTMLAttributes<HTMLElement>
+>({
+  name: "small",
+  level: "inline",
+  contentCategories: () => ["flow", "phrasing"],
+  contentModel: () => ["phrasing"],
+})
+
+export const Source = defineElement<
+  VoidElementProps<React.SourceHTMLAttributes<HTMLSourceElement>>
+>({
+  name: "source",
+  contentCategories: () => [],
+  contentModel: () => [],
+})
+
+export const Span = defineElement<
+  React.HTMLAttributes<HTMLSpanElement>
+>({
+  name: "span",
+  level: "inline",
+  contentCategories: () => ["flow", "phrasing"],
+  contentModel: () => ["phrasing"],
+})
+
+export const Strong = defineElement<
+  React.HTMLAttributes<HTMLElement>
+>({
+  name: "strong",
+  level: "inline",
+  contentCategories: () => ["flow", "phrasing"],
+  contentModel: () => ["phrasing"],
+})
+
+export const Style = defineElement<
+  React.StyleHTMLAttributes<HTMLStyleElement>
+>({
+  name: "style",
+  contentCategories: () => ["metadata"],
+  contentModel: () => [],
+})
+
+export const StylesheetLink = withHeadHoisting<{
+  href: string
+}>(({ href }) => <Link rel="stylesheet" href={href} />)
+
+export const Sub = defineElement<
+  React.HTMLAttributes<HTMLElement>
+>({
+  name: "sub",
+  level: "inline",
+  contentCategories: () => ["flow", "phrasing"],
+  contentModel: () => ["phrasing"],
+})
+
+export const Summary = defineElement<
+  React.HTMLAttributes<HTMLElement>
+>({
+  name: "summary",
+  contentCategories: () => [],
+  contentModel: () => ["phrasing", "heading"],
+})
+
+export const Sup = defineElement<
+  React.HTMLAttributes<HTMLElement>
+>({
+  name: "sup",
+  level: "inline",
+  contentCategories: () => ["flow", "phrasing"],
+  contentModel: () => ["phrasing"],
+})
+
+export const Table = defineElement<
+  React.TableHTMLAttributes<HTMLTableElement> & {
+    columns?: React.ReactNode[]
+    items?: React.ReactNode[][]
+  }
+>({
+  name: "table",
+  level: "block",
+  contentCategories: () => ["flow"],
+  contentModel: () => [
+    "caption",
+    "colgroup",
+    "thead",
+    "tbody",
+    "tfoot",
+    "tr",
+  ],
+  component: ({ columns, items, children, ...table }) => {
+    const ancestry = React.useContext(AncestryContext)
+    const diagnostics = useDiagnostics()
+    const head = columns && (
+      <THead>
+        <Tr>
+          {columns.map((column, i) => (
+            <Th key={i} scope="col">{column}</Th>
+          ))}
+        </Tr>
+      </THead>
+    )
+    const body = items && (
+      <TBody>
+        {items.map((item, i) => (
+          <Tr key={i}>
+            {item.map((cell, j) => (
+              <Td key={j}>{cell}</Td>
+            ))}
+          </Tr>
+        ))}
+      </TBody>
+    )
+    validateTable(diagnostics, ancestry, table, [children, head, body])
+    return (
+      <table {...table}>
+        <Positioned>{children}{head}{body}</Positioned>
+      </table>
+    )
+  },
+})
+
+export const TBody = defineElement<
+  React.HTMLAttributes<HTMLTableSectionElement>
+>({
+  name: "tbody",
+  contentCategories: () => [],
+  contentModel: () => ["tr"],
+})
+
+export const Td = defineElement<
+  React.TdHTMLAttributes<HTMLTableCellElement>
+>({
+  name: "td",
+  contentCategories: () => [],
+  contentModel: () => ["flow"],
+})
+
+export const Template = defineElement<
+  React.HTMLAttributes<HTMLTemplateElement>
+>({
+  name: "template",
+  level: "inline",
+  contentCategories: () => ["flow", "metadata", "phrasing"],
+  contentModel: () => ["flow", "metadata"],
+})
+
+export const Textarea = withLabel(defineElement<
+  React.TextareaHTMLAttributes<HTMLTextAreaElement>
+>({
+  name: "textarea",
+  level: "inline",
+  contentCategories: () => [
+    "flow",
+    "form-associated",
+    "interactive",
+    "phrasing",
+  ],
+  contentModel: () => [],
+}), "textarea")
+
+export const TFoot = defineElement<
+  React.HTMLAttributes<HTMLTableSectionElement>
+>({
+  name: "tfoot",
+  contentCategories: () => [],
+  contentModel: () => ["tr"],
+})
+
+export const Th = defineElement<
+  React.ThHTMLAttributes<HTMLTableCellElement>
+>({
+  name: "th",
+  contentCategories: () => [],
+  contentModel: () => ["flow"],
+})
+
+/**
+ * A nested list of links to every heading in the document. The headings are
+ * only known once the whole document has rendered, so this needs the two
+ * passes that `renderDocument()` makes.
+ */
+export const TableOfContents: React.FC = () => {
+  const toc = React.useContext(TableOfContentsContext)
+  if (!toc) {
+    throw new Error("<TableOfContents> must be rendered with renderDocument()")
+  }
+
+  toc.found = true
+  if (!toc.outline) {
+    return null
+  }
+
+  const root: TableOfContentsEntry[] = []
+  const stack: { level: number, entries: TableOfContentsEntry[] }[] = [
+    { level: 0, entries: root },
+  ]
+  for (const item of toc.outline) {
+    const entry = {
+      href: `#${item.id}`,
+      text: item.text,
+      children: [],
+    }
+    while (stack[stack.length - 1].level >= item.level) {
+      stack.pop()
+    }
+    stack[stack.length - 1].entries.push(entry)
+    stack.push({ level: item.level, entries: entry.children })
+  }
+
+  return <TableOfContentsList entries={root} />
+}
+
+type TableOfContentsEntry = {
+  href: string
+  text: string
+  children: TableOfContentsEntry[]
 }
 
-export const H1 = element<
-  React.HTMLAttributes<HTMLHeadingElement>
+const TableOfContentsList: React.FC<{
+  entries: TableOfContentsEntry[]
+}> = ({ entries }) => (
+  <Ul>
+    {entries.map((entry, i) => (
+      <Li key={i}>
+        <Anchor href={entry.href}>{entry.text}</Anchor>
+        {entry.children.length > 0 && (
+          <TableOfContentsList entries={entry.children} />
+        )}
+      </Li>
+    ))}
+  </Ul>
+)
+
+export const THead = defineElement<
+  React.HTMLAttributes<HTMLTableSectionElement>
+>({
+  name: "thead",
+  contentCategories: () => [],
+  contentModel: () => ["tr"],
+})
+
+export const Time = defineElement<
+  React.TimeHTMLAttributes<HTMLTimeElement>
+>({
+  name: "time",
+  level: "inline",
+  contentCategories: () => ["flow", "phrasing"],
+  contentModel: () => ["phrasing"],
+})
+
+export const Title = withHeadHoisting(defineElement<
+  React.HTMLAttributes<HTMLTitleElement> & {
+    children: string
+  }
 >({
-  name: "h1",
-  level: "block",
-  contentCategories: () => ["flow", "heading"],
-  component: props => <Heading {...props} level={1} />,
-})
+  name: "title",
+  contentCategories: () => ["metadata"],
+  contentModel: () => [],
+}))
 
-export const H2 = element<
-  React.HTMLAttributes<HTMLHeadingElement>
+export const Tr = defineElement<
+  React.HTMLAttributes<HTMLTableRowElement>
 >({
-  name: "h2",
-  level: "block",
-  contentCategories: () => ["flow", "heading"],
-  component: props => <Heading {...props} level={2} />,
+  name: "tr",
+  contentCategories: () => [],
+  contentModel: () => ["td", "th"],
 })
 
-export const H3 = element<
-  React.HTMLAttributes<HTMLHeadingElement>
+export const Track = defineElement<
+  VoidElementProps<React.TrackHTMLAttributes<HTMLTrackElement>>
 >({
-  name: "h3",
-  level: "block",
-  contentCategories: () => ["flow", "heading"],
-  component: props => <Heading {...props} level={3} />,
+  name: "track",
+  contentCategories: () => [],
+  contentModel: () => [],
 })
 
-export const H4 = element<
-  React.HTMLAttributes<HTMLHeadingElement>
+export const U = defineElement<
+  React.HTMLAttributes<HTMLElement>
 >({
-  name: "h4",
-  level: "block",
-  contentCategories: () => ["flow", "heading"],
-  component: props => <Heading {...props} level={4} />,
+  name: "u",
+  level: "inline",
+  contentCategories: () => ["flow", "phrasing"],
+  contentModel: () => ["phrasing"],
 })
 
-export const H5 = element<
-  React.HTMLAttributes<HTMLHeadingElement>
+export const Ul = defineElement<
+  React.HTMLAttributes<HTMLUListElement>
 >({
-  name: "h5",
+  name: "ul",
   level: "block",
-  contentCategories: () => ["flow", "heading"],
-  component: props => <Heading {...props} level={5} />,
+  contentCategories: () => ["flow"],
+  contentModel: () => ["li", "script", "template"],
 })
 
-export const H6 = element<
-  React.HTMLAttributes<HTMLHeadingElement>
+export const Var = defineElement<
+  React.HTMLAttributes<HTMLElement>
 >({
-  name: "h6",
-  level: "block",
-  contentCategories: () => ["flow", "heading"],
-  component: props => <Heading {...props} level={6} />,
+  name: "var",
+  level: "inline",
+  contentCategories: () => ["flow", "phrasing"],
+  contentModel: () => ["phrasing"],
 })
 
-export const Head = element<React.HTMLAttributes<HTMLHeadElement>>({
-  name: "head",
-  level: "undefined",
-  contentCategories: () => [],
+export const Video = defineElement<
+  React.VideoHTMLAttributes<HTMLVideoElement>
+>({
+  name: "video",
+  level: "inline",
+  contentCategories: ({ props }) => props.controls
+    ? ["embedded", "flow", "interactive", "phrasing"]
+    : ["embedded", "flow", "phrasing"],
+  contentModel: () => ["source", "track"],
   component: props => {
-    const title = React.useContext(TitleContext)
-    return (
-      <head {...props}>
-        <MetaCharset />
-        <MetaViewport />
-        <MetaDescription />
-        <title>{title}</title>
-        {props.children}
-      </head>
-    )
+    const ancestry = React.useContext(AncestryContext)
+    const diagnostics = useDiagnostics()
+    validateDimensions(diagnostics, ancestry, props)
+    return <video {...props}>{positioned(props.children)}</video>
   },
 })
 
-export const Header = element<
-  React.HTMLAttributes<HTMLElement>
+export const Wbr = defineElement<
+  VoidElementProps<React.HTMLAttributes<HTMLElement>>
 >({
-  name: "header",
-  level: "block",
-  contentCategories: () => ["flow"],
+  name: "wbr",
+  level: "inline",
+  contentCategories: () => ["flow", "phrasing"],
+  contentModel: () => [],
 })
 
-export const Heading: React.FC<React.HTMLAttributes<HTMLHeadingElement> & {
-  level?: HeadingLevel
-}> = withLanguage(props => {
-  const headingLevel = React.useContext(HeadingLevelContext)
+/**
+ * Renders `element` and returns the headings it contains, in document order.
+ * `element` would usually be a `<Document>`, but any tree of elements works.
+ */
+export function outline(element: React.ReactElement): OutlineItem[] {
+  const items: OutlineEntry[] = []
+  const documents = [createDocumentState()]
+  ReactDOMServer.renderToStaticMarkup(
+    <RenderContext.Provider value={{ documents }}>
+      <DocumentContext.Provider value={documents[0]}>
+        <OutlineContext.Provider value={items}>
+          <TableOfContentsContext.Provider value={{ found: true }}>
+            <HeadingScopeContext.Provider value={{
+              depth: 0,
+              element: "body",
+            }}>
+              {element}
+            </HeadingScopeContext.Provider>
+          </TableOfContentsContext.Provider>
+        </OutlineContext.Provider>
+      </DocumentContext.Provider>
+    </RenderContext.Provider>
+  )
+  documents.forEach(reportDocument)
+  return inDocumentOrder(items).map(({ item }) => item)
+}
 
-  const {
-    level: newLevel,
-    ...heading
-  } = props
+/**
+ * What the first pass of `renderDocument()` collects for the second.
+ */
+type RenderPass = {
+  diagnostics?: Diagnostic[]
+  documents: DocumentState[]
+  head: { collected: { position: number[], element: React.ReactElement }[] }
+  outline: OutlineEntry[]
+  toc: { found: boolean }
+}
 
-  const level = newLevel || headingLevel.current
-  const levelChange = Math.abs(level - headingLevel.current)
-  if (levelChange > 1) {
-    throw new Error(
-      `Heading level ${level} not allowed: previous level is ${headingLevel.current}`
-    )
-  }
+function firstPass(
+  element: React.ReactElement,
+  pass: RenderPass,
+): React.ReactElement {
+  return (
+    <RenderContext.Provider value={pass}>
+      <OutlineContext.Provider value={pass.outline}>
+        <TableOfContentsContext.Provider value={pass.toc}>
+          <HeadHoistingContext.Provider value={pass.head}>
+            {element}
+          </HeadHoistingContext.Provider>
+        </TableOfContentsContext.Provider>
+      </OutlineContext.Provider>
+    </RenderContext.Provider>
+  )
+}
 
-  headingLevel.current = level
-  const Element = `h${level}`
-  return <Element {...heading} />
-})
+/**
+ * Returns the element for the second pass, or `undefined` if the first pass
+ * found nothing that needs one. Heading levels and ids are resolved here, in
+ * document order, and looked up by position in the second pass.
+ */
+function secondPass(
+  element: React.ReactElement,
+  { diagnostics, documents: rendered, head, outline, toc }: RenderPass,
+  documents: DocumentState[],
+): React.ReactElement | undefined {
+  // Generated slugs mustn't clash with any id the document already has.
+  const slugs = new Set([
+    ...rendered.flatMap(document => document.ids.map(({ error }) => (
+      error.actual
+    ))),
+    ...outline.flatMap(({ item }) => item.id === undefined ? [] : [item.id]),
+  ])
+  const levels = new Map<HeadingScope, HeadingLevel>()
+  const resolved = new Map<string, { id?: string, level: HeadingLevel }[]>()
+  let relevelled = false
+  const items = inDocumentOrder(outline).map(entry => {
+    const { position, scope, requested, item } = entry
+    const level = requested
+      ?? levels.get(scope)
+      ?? Math.min(scope.depth + 1, 6) as HeadingLevel
+    const id = item.id ?? (toc.found ? uniqueSlug(slugs, item.text) : undefined)
+    levels.set(scope, level)
+    relevelled = relevelled || level !== item.level
+    resolved.set(`${position}`, [
+      ...resolved.get(`${position}`) ?? [],
+      { id, level },
+    ])
+    return { ...item, id, level }
+  })
 
-export const Footer = element<
-  React.HTMLAttributes<HTMLElement>
->({
-  name: "footer",
-  level: "block",
-  contentCategories: () => ["flow"],
-})
+  if (!toc.found && head.collected.length === 0 && !relevelled) {
+    return undefined
+  }
 
-export const Link = element<
-  React.LinkHTMLAttributes<HTMLLinkElement>
->({
-  name: "link",
-  contentCategories: () => ["metadata"],
-})
+  return (
+    <RenderContext.Provider value={{ documents, diagnostics }}>
+      <ResolvedHeadingsContext.Provider value={resolved}>
+        <TableOfContentsContext.Provider value={{ found: true, outline: items }}>
+          <HeadHoistingContext.Provider value={{
+            hoisted: inDocumentOrder(head.collected).map(({ element }) => (
+              element
+            )),
+          }}>
+            {element}
+          </HeadHoistingContext.Provider>
+        </TableOfContentsContext.Provider>
+      </ResolvedHeadingsContext.Provider>
+    </RenderContext.Provider>
+  )
+}
 
-export const Main = element<
-  React.HTMLAttributes<HTMLElement>
->({
-  name: "main",
-  level: "block",
-  contentCategories: () => ["flow"],
-})
+function createRenderPass({ diagnostics }: RenderOptions): RenderPass {
+  return {
+    diagnostics,
+    documents: [],
+    head: { collected: [] },
+    outline: [],
+    toc: { found: false },
+  }
+}
 
-export const Meta = element<
-  React.MetaHTMLAttributes<HTMLMetaElement>
->({
-  name: "meta",
-  contentCategories: ({ props }) => props.itemProp
-    ? ["flow", "metadata", "phrasing"]
-    : ["metadata"],
-})
+/**
+ * Renders `element` to static HTML. Documents containing a
+ * `<TableOfContents>` or metadata inside `<body>` are rendered twice: once to
+ * collect their outline and metadata and again to render the table of
+ * contents, give each heading an `id` and move the metadata into `<head>`.
+ */
+export function renderDocument(
+  element: React.ReactElement,
+  options: RenderOptions = {},
+): string {
+  const first = createRenderPass(options)
+  const html = ReactDOMServer.renderToStaticMarkup(firstPass(element, first))
+  if (options.requireDocument && first.documents.length === 0) {
+    throw new MissingDocumentError()
+  }
+  const documents: DocumentState[] = []
+  const second = secondPass(element, first, documents)
+  if (!second) {
+    first.documents.forEach(reportDocument)
+    return html
+  }
 
-export const MetaCharset: React.FC = () => (
-  <Meta charSet="utf-8" />
-)
+  const result = ReactDOMServer.renderToStaticMarkup(second)
+  documents.forEach(reportDocument)
+  return result
+}
 
-export const MetaDescription: React.FC<{
-  description?: string
-}> = ({ description = React.useContext(DescriptionContext) }) => (
-  <Meta
-    name="description" 
-    content={description}
-  />
-)
+/**
+ * Like `renderDocument()`, but streams each pass so that `<Suspense>`
+ * boundaries are waited for rather than rendered as their fallbacks.
+ * Violations are reported in document order whatever order the boundaries
+ * resolve in.
+ */
+export async function renderDocumentAsync(
+  element: React.ReactElement,
+  options: RenderOptions = {},
+): Promise<string> {
+  const first = createRenderPass(options)
+  const html = await renderToStream(firstPass(element, first))
+  if (options.requireDocument && first.documents.length === 0) {
+    throw new MissingDocumentError()
+  }
+  const documents: DocumentState[] = []
+  const second = secondPass(element, first, documents)
+  if (!second) {
+    first.documents.forEach(reportDocument)
+    return html
+  }
 
-export const MetaViewport: React.FC<{
-  initialScale?: number
-  width?: number | "device-width"
-}> = ({ initialScale = 1, width = "device-width" }) => (
-  <Meta
-    name="viewport" 
-    content={`width=${width}, initial-scale=${initialScale}`}
-  />
-)
+  const result = await renderToStream(second)
+  documents.forEach(reportDocument)
+  return result
+}
 
-export const Span = element<
-  React.HTMLAttributes<HTMLSpanElement>
->({
-  name: "span",
-  level: "inline",
-  contentCategories: () => ["flow", "phrasing"],
-})
+function renderToStream(element: React.ReactElement): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    const output = new Writable({
+      write(chunk, _encoding, callback) {
+        chunks.push(Buffer.from(chunk))
+        callback()
+      },
+      final(callback) {
+        resolve(Buffer.concat(chunks).toString("utf8"))
+        callback()
+      },
+    })
+    let error: unknown
+    const stream = ReactDOMServer.renderToPipeableStream(element, {
+      onAllReady() {
+        if (error) {
+          reject(error)
+        } else {
+          stream.pipe(output)
+        }
+      },
+      onError(thrown) {
+        error = error ?? thrown
+      },
+      onShellError: reject,
+    })
+  })
+}
 
-export const StylesheetLink: React.FC<{
-  href: string
-}> = ({ href }) => <Link rel="stylesheet" href={href} />
+/**
+ * Makes every element below it use `registry` instead of
+ * `defaultElementRegistry`.
+ */
+export const ElementRegistryProvider: React.FC<{
+  registry: ElementRegistry
+  children?: React.ReactNode
+}> = ({ registry, children }) => (
+  <ElementRegistryContext.Provider value={registry}>
+    {children}
+  </ElementRegistryContext.Provider>
+)
 
 export const Elements = {
+  Abbr,
+  Address,
+  AlternateLink,
   Anchor,
+  Area,
+  Article,
+  Aside,
+  Audio,
+  B,
+  Base,
+  Bdi,
+  Bdo,
+  Blockquote,
   Body,
+  Br,
+  Button,
   CanonicalLink,
+  Canvas,
+  Caption,
+  Cite,
+  Code,
+  Col,
+  ColGroup,
+  Data,
+  DataList,
+  Del,
   DescriptionDetails,
   DescriptionList,
   DescriptionTerm,
+  Details,
+  Dfn,
+  Dialog,
   Div,
   Document,
+  Em,
+  Embed,
+  EmbeddedObject,
+  Fieldset,
+  Figcaption,
+  Figure,
+  Footer,
+  Form,
   H1,
   H2,
   H3,
@@ -475,127 +4469,81 @@ export const Elements = {
   H5,
   H6,
   Head,
+  Header,
   Heading,
+  HGroup,
+  Hr,
+  I,
+  IconLink,
+  IFrame,
+  ImageMap,
+  Img,
+  Input,
+  Ins,
+  JsonLdScript,
+  Kbd,
+  Label,
+  Legend,
+  Li,
   Link,
   Main,
+  Mark,
+  Menu,
   Meta,
   MetaCharset,
   MetaDescription,
+  MetaOpenGraph,
+  MetaRobots,
+  MetaThemeColor,
+  MetaTwitterCard,
   MetaViewport,
+  Meter,
+  Nav,
+  NoScript,
+  Ol,
+  OptGroup,
+  Option,
+  Output,
+  P,
+  Picture,
+  Pre,
+  Progress,
+  Q,
+  Rp,
+  Rt,
+  Ruby,
+  S,
+  Samp,
+  Script,
+  Section,
+  Select,
+  Slot,
+  Small,
+  Source,
   Span,
+  Strong,
+  Style,
   StylesheetLink,
+  Sub,
+  Summary,
+  Sup,
+  Table,
+  TableOfContents,
+  TBody,
+  Td,
+  Template,
+  Textarea,
+  TFoot,
+  Th,
+  THead,
+  Time,
+  Title,
+  Tr,
+  Track,
+  U,
+  Ul,
+  Var,
+  Video,
+  Wbr,
 }
 
-/*
-export type ElementName = "a"
-  | "abbr"
-  | "address"
-  | "area"
-  | "article"
-  | "aside"
-  | "audio"
-  | "b"
-  | "base"
-  | "bdi"
-  | "bdo"
-  | "blockquote"
-  | "body"
-  | "br"
-  | "button"
-  | "canvas"
-  | "caption"
-  | "cite"
-  | "code"
-  | "col"
-  | "colgroup"
-  | "data"
-  | "datalist"
-  | "dd"
-  | "del"
-  | "details"
-  | "dfn"
-  | "dialog"
-  | "div"
-  | "dl"
-  | "dt"
-  | "em"
-  | "embed"
-  | "fieldset"
-  | "figcaption"
-  | "figure"
-  | "form"
-  | "h1"
-  | "h2"
-  | "h3"
-  | "h4"
-  | "h5"
-  | "h6"
-  | "head"
-  | "hgroup"
-  | "hr"
-  | "html"
-  | "i"
-  | "iframe"
-  | "img"
-  | "input"
-  | "ins"
-  | "kbd"
-  | "label"
-  | "legend"
-  | "li"
-  | "link"
-  | "main"
-  | "map"
-  | "mark"
-  | "menu"
-  | "meta"
-  | "meter"
-  | "nav"
-  | "noscript"
-  | "object"
-  | "ol"
-  | "optgroup"
-  | "option"
-  | "output"
-  | "p"
-  | "param"
-  | "picture"
-  | "pre"
-  | "progress"
-  | "q"
-  | "rb"
-  | "rp"
-  | "rt"
-  | "rtc"
-  | "ruby"
-  | "s"
-  | "samp"
-  | "script"
-  | "section"
-  | "select"
-  | "slot"
-  | "small"
-  | "source"
-  | "span"
-  | "strong"
-  | "style"
-  | "sub"
-  | "summary"
-  | "sup"
-  | "table"
-  | "tbody"
-  | "td"
-  | "template"
-  | "tfoot"
-  | "th"
-  | "thead"
-  | "time"
-  | "title"
-  | "tr"
-  | "track"
-  | "u"
-  | "ul"
-  | "var"
-  | "video"
-  | "wbr"
-*/
@@ -1,12 +1,12 @@
 import React from "react"
-import { Document, Body } from "../../"
+import { Document, Body, P } from "../../"
 
 export default function BodyOnly(): React.ReactElement {
   return (
     <Document lang="en-US" title="example" description="testing">
       <Body>
         <h1>one</h1>
-        <p>two</p>
+        <P>two</P>
       </Body>
     </Document>
   )
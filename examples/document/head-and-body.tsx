@@ -1,5 +1,5 @@
 import React from "react"
-import { Document, Head, Body } from "../../"
+import { Document, Head, Body, P } from "../../"
 
 export default function HeadAndBody(): React.ReactElement {
   return (
@@ -9,7 +9,7 @@ export default function HeadAndBody(): React.ReactElement {
       </Head>
       <Body>
         <h1>one</h1>
-        <p>two</p>
+        <P>two</P>
       </Body>
     </Document>
   )
@@ -1,11 +1,11 @@
 import React from "react"
-import { Document } from "../../"
+import { Document, P } from "../../"
 
 export default function ImplicitBody(): React.ReactElement {
   return (
     <Document lang="en-US" title="example" description="testing">
       <h1>one</h1>
-      <p>two</p>
+      <P>two</P>
     </Document>
   )
 }